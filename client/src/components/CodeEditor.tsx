@@ -10,6 +10,14 @@ interface CodeEditorProps {
   projectId?: string;
 }
 
+// Video and audio open in a player; subtitle tracks are text and stay in the editor
+function mediaPlayer(file: ProjectFile): "video" | "audio" | null {
+  if (file.type !== "media") return null;
+  if (/\.(mp3|m4a|ogg|oga|opus|wav|aac|flac)$/i.test(file.path)) return "audio";
+  if (/\.(vtt|srt)$/i.test(file.path)) return null;
+  return "video";
+}
+
 declare global {
   interface Window {
     monaco: any;
@@ -22,6 +30,8 @@ export default function CodeEditor({ file, projectId }: CodeEditorProps) {
   const [monacoLoaded, setMonacoLoaded] = useState(false);
   const [openTabs, setOpenTabs] = useState<ProjectFile[]>([]);
   const { toast } = useToast();
+  const player = file ? mediaPlayer(file) : null;
+  const mediaUrl = file && projectId ? `/api/projects/${projectId}/preview/${file.path}` : "";
 
   // Load Monaco Editor
   useEffect(() => {
@@ -85,6 +95,8 @@ export default function CodeEditor({ file, projectId }: CodeEditorProps) {
         ? "css"
         : file.type === "js"
         ? "javascript"
+        : file.type === "json"
+        ? "json"
         : "plaintext";
 
     monacoEditorRef.current.setValue(file.content || "");
@@ -165,7 +177,22 @@ export default function CodeEditor({ file, projectId }: CodeEditorProps) {
       {/* Monaco Editor */}
       <div className="flex-1 overflow-hidden">
         {file ? (
-          <div ref={editorRef} className="monaco-editor-container" data-testid="code-editor" />
+          <>
+            {player && (
+              <div className="flex items-center justify-center h-full bg-black/90 p-4" data-testid="media-preview">
+                {player === "video" ? (
+                  <video key={file.id} src={mediaUrl} controls className="max-w-full max-h-full" />
+                ) : (
+                  <audio key={file.id} src={mediaUrl} controls className="w-full max-w-md" />
+                )}
+              </div>
+            )}
+            <div
+              ref={editorRef}
+              className={`monaco-editor-container ${player ? "hidden" : ""}`}
+              data-testid="code-editor"
+            />
+          </>
         ) : (
           <div className="flex items-center justify-center h-full text-muted-foreground">
             Select a file to edit
@@ -184,7 +211,7 @@ export default function CodeEditor({ file, projectId }: CodeEditorProps) {
           <button
             className="px-3 py-1 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-all"
             onClick={handleSave}
-            disabled={!file || updateFileMutation.isPending}
+            disabled={!file || player !== null || updateFileMutation.isPending}
             data-testid="button-save"
           >
             Save (Ctrl+S)
@@ -9,11 +9,16 @@ import {
   FileCode,
   FileText,
   Image,
+  Film,
+  Music,
+  Captions,
   ChevronRight,
   ChevronDown,
   Play,
   Download,
   RefreshCw,
+  FileArchive,
+  History,
 } from "lucide-react";
 
 interface FileTreeNode {
@@ -29,12 +34,14 @@ interface FileExplorerProps {
   currentProject: Project | null;
   onFileSelect: (file: ProjectFile) => void;
   onProjectSelect?: (projectId: string | null) => void;
+  onReplayHar?: (projectId: string) => void;
 }
 
 export default function FileExplorer({
   files,
   currentProject,
   onFileSelect,
+  onReplayHar,
 }: FileExplorerProps) {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(["root"]));
   const [selectedPath, setSelectedPath] = useState<string>("");
@@ -70,6 +77,33 @@ export default function FileExplorer({
     },
   });
 
+  const downloadHarMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const response = await fetch(`/api/projects/${projectId}/har`);
+      if (!response.ok) throw new Error("No HAR archive recorded for this project");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${currentProject?.name || "project"}.har`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Playwright clones that recorded their traffic, and replays (which keep the archive they ran from)
+  const hasHar = currentProject?.cloneMethod === "replay" || !!currentProject?.renderOptions?.recordHar;
+
   const buildFileTree = (files: ProjectFile[]): FileTreeNode => {
     const root: FileTreeNode = {
       name: currentProject?.name || "Project",
@@ -136,6 +170,11 @@ export default function FileExplorer({
     if (["js", "json"].includes(ext || "")) return <FileText className="w-4 h-4 text-yellow-400" />;
     if (["png", "jpg", "jpeg", "gif", "svg", "webp"].includes(ext || ""))
       return <Image className="w-4 h-4 text-green-400" />;
+    if (["mp4", "m4v", "webm", "ogv", "mov"].includes(ext || ""))
+      return <Film className="w-4 h-4 text-purple-400" />;
+    if (["mp3", "m4a", "ogg", "oga", "opus", "wav", "aac", "flac"].includes(ext || ""))
+      return <Music className="w-4 h-4 text-pink-400" />;
+    if (["vtt", "srt"].includes(ext || "")) return <Captions className="w-4 h-4 text-purple-300" />;
     return <FileText className="w-4 h-4 text-muted-foreground" />;
   };
 
@@ -226,6 +265,31 @@ export default function FileExplorer({
           <Download className="w-4 h-4" />
           Download ZIP
         </button>
+        {hasHar && (
+          <div className="flex gap-2">
+            <button
+              className="flex-1 bg-secondary hover:bg-secondary/80 text-secondary-foreground px-3 py-2 rounded-lg text-sm font-medium transition-all flex items-center justify-center gap-2"
+              onClick={() => currentProject && downloadHarMutation.mutate(currentProject.id)}
+              disabled={downloadHarMutation.isPending}
+              data-testid="button-download-har"
+            >
+              <FileArchive className="w-4 h-4" />
+              HAR
+            </button>
+            {onReplayHar && (
+              <button
+                className="flex-1 bg-secondary hover:bg-secondary/80 text-secondary-foreground px-3 py-2 rounded-lg text-sm font-medium transition-all flex items-center justify-center gap-2"
+                onClick={() => currentProject && onReplayHar(currentProject.id)}
+                disabled={currentProject?.status !== "complete"}
+                title="Clone again from the recorded HAR, without network access"
+                data-testid="button-replay-har"
+              >
+                <History className="w-4 h-4" />
+                Replay
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </aside>
   );
@@ -1,4 +1,4 @@
-import { X, CheckCircle, Loader2, Circle, Pause, Play } from "lucide-react";
+import { X, CheckCircle, Loader2, Circle, Pause, Play, Ban } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
@@ -54,6 +54,20 @@ export default function ProgressModal({ isOpen, progress, projectId, projectStat
     },
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      if (!projectId) return;
+      const res = await apiRequest("POST", `/api/projects/${projectId}/cancel`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      if (projectId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      }
+    },
+  });
+
   if (!isOpen) return null;
 
   const getStepStatus = (threshold: number) => {
@@ -158,6 +172,17 @@ export default function ProgressModal({ isOpen, progress, projectId, projectStat
             )}
           </div>
           <div className="flex gap-2">
+            {projectId && (isPaused || projectStatus === "processing") && (
+              <button
+                className="px-4 py-2 bg-destructive hover:bg-destructive/90 text-destructive-foreground rounded-lg transition-all flex items-center gap-2"
+                onClick={() => cancelMutation.mutate()}
+                disabled={cancelMutation.isPending}
+                data-testid="button-cancel-clone"
+              >
+                <Ban className="w-4 h-4" />
+                Cancel
+              </button>
+            )}
             {projectId && !isPaused && projectStatus === "processing" && (
               <button
                 className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg transition-all flex items-center gap-2"
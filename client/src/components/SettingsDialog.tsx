@@ -12,8 +12,11 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Zap, Globe, Link2, Sparkles } from "lucide-react";
-import { deviceProfiles } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Zap, Globe, Link2, Sparkles, Filter, Timer, Image, MousePointerClick, KeyRound } from "lucide-react";
+import { deviceProfiles, type CrawlRules, type CrawlPoliteness, type AssetOptions, type RenderOptions, type AuthProfileInput, type LoginStep } from "@shared/schema";
 
 interface SettingsDialogProps {
   isOpen: boolean;
@@ -21,23 +24,172 @@ interface SettingsDialogProps {
   cloneMethod: "static" | "playwright" | "ai";
   crawlDepth: number;
   deviceProfiles: string[];
-  onSave: (method: "static" | "playwright" | "ai", crawlDepth: number, deviceProfiles: string[]) => void;
+  crawlRules: CrawlRules;
+  politeness: CrawlPoliteness;
+  assetOptions: AssetOptions;
+  renderOptions: RenderOptions;
+  authProfile: AuthProfileInput | null;
+  onSave: (
+    method: "static" | "playwright" | "ai",
+    crawlDepth: number,
+    deviceProfiles: string[],
+    crawlRules: CrawlRules,
+    politeness: CrawlPoliteness,
+    assetOptions: AssetOptions,
+    renderOptions: RenderOptions,
+    authProfile: AuthProfileInput | null
+  ) => void;
 }
 
+const splitLines = (value: string) => value.split("\n").map((line) => line.trim()).filter(Boolean);
+
+// Login steps are edited one per line: "goto URL", "fill SELECTOR | VALUE", "click SELECTOR", "wait SELECTOR" or "wait MS"
+const formatLoginStep = (step: LoginStep) => {
+  switch (step.action) {
+    case "goto":
+      return `goto ${step.url}`;
+    case "fill":
+      return `fill ${step.selector} | ${step.value}`;
+    case "click":
+      return `click ${step.selector}`;
+    case "wait":
+      return `wait ${step.selector ?? step.ms ?? 1000}`;
+  }
+};
+
+const parseLoginStep = (line: string): LoginStep => {
+  const [action, ...rest] = line.split(/\s+/);
+  const argument = line.slice(action.length).trim();
+  if (!argument) {
+    throw new Error(`Login step "${line}" is missing its target`);
+  }
+  switch (action.toLowerCase()) {
+    case "goto":
+      return { action: "goto", url: argument };
+    case "fill": {
+      const separator = argument.indexOf(" | ");
+      if (separator < 0) {
+        throw new Error(`Login step "${line}" should be "fill SELECTOR | VALUE"`);
+      }
+      return { action: "fill", selector: argument.slice(0, separator).trim(), value: argument.slice(separator + 3) };
+    }
+    case "click":
+      return { action: "click", selector: argument };
+    case "wait":
+      return rest.length === 1 && /^\d+$/.test(argument) ? { action: "wait", ms: parseInt(argument) } : { action: "wait", selector: argument };
+    default:
+      throw new Error(`Unknown login step "${action}"; use goto, fill, click or wait`);
+  }
+};
+
 export default function SettingsDialog({
   isOpen,
   onClose,
   cloneMethod,
   crawlDepth,
   deviceProfiles: initialDeviceProfiles,
+  crawlRules,
+  politeness,
+  assetOptions,
+  renderOptions,
+  authProfile,
   onSave,
 }: SettingsDialogProps) {
   const [selectedMethod, setSelectedMethod] = useState<"static" | "playwright" | "ai">(cloneMethod);
   const [selectedDepth, setSelectedDepth] = useState<number>(crawlDepth);
   const [selectedDeviceProfiles, setSelectedDeviceProfiles] = useState<string[]>(initialDeviceProfiles.length > 0 ? initialDeviceProfiles : ["desktop"]);
+  const [includePatterns, setIncludePatterns] = useState(crawlRules.include.join("\n"));
+  const [excludePatterns, setExcludePatterns] = useState(crawlRules.exclude.join("\n"));
+  const [pathPrefix, setPathPrefix] = useState(crawlRules.pathPrefix || "");
+  const [queryMode, setQueryMode] = useState<CrawlRules["queryMode"]>(crawlRules.queryMode);
+  const [allowedParams, setAllowedParams] = useState(crawlRules.allowedParams.join(", "));
+  const [useSitemap, setUseSitemap] = useState(crawlRules.useSitemap);
+  const [respectRobotsTxt, setRespectRobotsTxt] = useState(politeness.respectRobotsTxt);
+  const [minDelayMs, setMinDelayMs] = useState(politeness.minDelayMs);
+  const [maxConcurrency, setMaxConcurrency] = useState(politeness.maxConcurrency);
+  const [maxTotalConcurrency, setMaxTotalConcurrency] = useState(politeness.maxTotalConcurrency);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(Math.round(politeness.timeoutMs / 1000));
+  const [maxRetries, setMaxRetries] = useState(politeness.maxRetries);
+  const [maxResponseMb, setMaxResponseMb] = useState(Math.round(politeness.maxResponseBytes / (1024 * 1024)));
+  const [imageCandidates, setImageCandidates] = useState<AssetOptions["imageCandidates"]>(assetOptions.imageCandidates);
+  const [maxImageWidth, setMaxImageWidth] = useState(assetOptions.maxImageWidth?.toString() ?? "");
+  const [maxImageDensity, setMaxImageDensity] = useState(assetOptions.maxImageDensity?.toString() ?? "");
+  const [maxMediaMb, setMaxMediaMb] = useState(Math.round(assetOptions.maxMediaBytes / (1024 * 1024)));
+  const [sourceMaps, setSourceMaps] = useState(assetOptions.sourceMaps);
+  const [autoScroll, setAutoScroll] = useState(renderOptions.autoScroll);
+  const [maxScrollSteps, setMaxScrollSteps] = useState(renderOptions.maxScrollSteps);
+  const [scrollDelayMs, setScrollDelayMs] = useState(renderOptions.scrollDelayMs);
+  const [waitForSelectors, setWaitForSelectors] = useState(renderOptions.waitForSelectors.join("\n"));
+  const [clickSelectors, setClickSelectors] = useState(renderOptions.clickSelectors.join("\n"));
+  const [maxClicks, setMaxClicks] = useState(renderOptions.maxClicks);
+  const [recordHar, setRecordHar] = useState(renderOptions.recordHar);
+  const [authHeaders, setAuthHeaders] = useState(
+    Object.entries(authProfile?.headers ?? {}).map(([name, value]) => `${name}: ${value}`).join("\n")
+  );
+  const [cookieJar, setCookieJar] = useState(authProfile?.cookieJar ?? "");
+  const [basicAuthUser, setBasicAuthUser] = useState(authProfile?.basicAuth?.username ?? "");
+  const [basicAuthPassword, setBasicAuthPassword] = useState(authProfile?.basicAuth?.password ?? "");
+  const [loginSteps, setLoginSteps] = useState((authProfile?.loginSteps ?? []).map(formatLoginStep).join("\n"));
+  const [authError, setAuthError] = useState<string | null>(null);
+
+  const buildAuthProfile = (): AuthProfileInput | null => {
+    const headers = Object.fromEntries(splitLines(authHeaders).map((line) => {
+      const separator = line.indexOf(":");
+      if (separator <= 0) {
+        throw new Error(`Header "${line}" should be "Name: value"`);
+      }
+      return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+    }));
+    const profile: AuthProfileInput = {
+      headers,
+      cookieJar: cookieJar.trim() || undefined,
+      basicAuth: basicAuthUser.trim() ? { username: basicAuthUser.trim(), password: basicAuthPassword } : null,
+      loginSteps: splitLines(loginSteps).map(parseLoginStep),
+    };
+    const empty = Object.keys(headers).length === 0 && !profile.cookieJar && !profile.basicAuth && profile.loginSteps?.length === 0;
+    return empty ? null : profile;
+  };
 
   const handleSave = () => {
-    onSave(selectedMethod, selectedDepth, selectedDeviceProfiles);
+    let auth: AuthProfileInput | null;
+    try {
+      auth = buildAuthProfile();
+    } catch (error) {
+      setAuthError(error instanceof Error ? error.message : "Invalid authentication settings");
+      return;
+    }
+    setAuthError(null);
+
+    onSave(selectedMethod, selectedDepth, selectedDeviceProfiles, {
+      include: splitLines(includePatterns),
+      exclude: splitLines(excludePatterns),
+      pathPrefix: pathPrefix.trim() || undefined,
+      queryMode,
+      allowedParams: allowedParams.split(",").map((param) => param.trim()).filter(Boolean),
+      useSitemap,
+    }, {
+      respectRobotsTxt,
+      minDelayMs: Math.max(0, minDelayMs || 0),
+      maxConcurrency: Math.max(1, maxConcurrency || 1),
+      maxTotalConcurrency: Math.max(1, maxTotalConcurrency || 1),
+      timeoutMs: Math.max(1, timeoutSeconds || 30) * 1000,
+      maxRetries: Math.min(10, Math.max(0, maxRetries || 0)),
+      maxResponseBytes: Math.max(1, maxResponseMb || 50) * 1024 * 1024,
+    }, {
+      imageCandidates,
+      maxImageWidth: parseInt(maxImageWidth) > 0 ? parseInt(maxImageWidth) : undefined,
+      maxImageDensity: parseFloat(maxImageDensity) >= 1 ? parseFloat(maxImageDensity) : undefined,
+      maxMediaBytes: Math.max(1, maxMediaMb || 25) * 1024 * 1024,
+      sourceMaps,
+    }, {
+      autoScroll,
+      maxScrollSteps: Math.min(500, Math.max(1, maxScrollSteps || 50)),
+      scrollDelayMs: Math.min(10000, Math.max(0, scrollDelayMs || 0)),
+      waitForSelectors: splitLines(waitForSelectors),
+      clickSelectors: splitLines(clickSelectors),
+      maxClicks: Math.min(100, Math.max(0, maxClicks || 0)),
+      recordHar,
+    }, auth);
     onClose();
   };
 
@@ -158,7 +310,7 @@ export default function SettingsDialog({
               <span className="font-semibold">Crawl Sub-Pages</span>
             </Label>
             <p className="text-sm text-muted-foreground mb-3">
-              Clone linked pages from the main page (up to 10 sub-pages).
+              Follow same-site links level by level, up to the selected depth.
             </p>
             <Select 
               value={selectedDepth.toString()} 
@@ -170,6 +322,9 @@ export default function SettingsDialog({
               <SelectContent>
                 <SelectItem value="0" data-testid="option-depth-0">Single Page Only</SelectItem>
                 <SelectItem value="1" data-testid="option-depth-1">Include Sub-Pages (1 level deep)</SelectItem>
+                <SelectItem value="2" data-testid="option-depth-2">2 levels deep</SelectItem>
+                <SelectItem value="3" data-testid="option-depth-3">3 levels deep</SelectItem>
+                <SelectItem value="5" data-testid="option-depth-5">5 levels deep</SelectItem>
               </SelectContent>
             </Select>
             {selectedDepth > 0 && (
@@ -178,6 +333,454 @@ export default function SettingsDialog({
               </p>
             )}
           </div>
+
+          {selectedDepth > 0 && (
+            <div className="mt-6 pt-6 border-t space-y-4">
+              <div>
+                <Label className="flex items-center gap-2 mb-1">
+                  <Filter className="w-4 h-4 text-primary" />
+                  <span className="font-semibold">Crawl Rules</span>
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  One pattern per line. Globs like <code>/docs/**</code> match the path; <code>re:</code> patterns like <code>re:/logout/i</code> are regexes matched against the full URL.
+                </p>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="use-sitemap" className="text-sm">Seed from sitemap.xml</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Also queue every page listed in the site's sitemaps.
+                  </p>
+                </div>
+                <Switch
+                  id="use-sitemap"
+                  checked={useSitemap}
+                  onCheckedChange={setUseSitemap}
+                  data-testid="switch-use-sitemap"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="crawl-include" className="text-sm">Include</Label>
+                <Textarea
+                  id="crawl-include"
+                  placeholder="/docs/**"
+                  value={includePatterns}
+                  onChange={(e) => setIncludePatterns(e.target.value)}
+                  rows={2}
+                  data-testid="textarea-crawl-include"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="crawl-exclude" className="text-sm">Exclude</Label>
+                <Textarea
+                  id="crawl-exclude"
+                  placeholder={"/blog/**\n/logout/"}
+                  value={excludePatterns}
+                  onChange={(e) => setExcludePatterns(e.target.value)}
+                  rows={2}
+                  data-testid="textarea-crawl-exclude"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="crawl-prefix" className="text-sm">Path prefix</Label>
+                <Input
+                  id="crawl-prefix"
+                  placeholder="/docs/"
+                  value={pathPrefix}
+                  onChange={(e) => setPathPrefix(e.target.value)}
+                  data-testid="input-crawl-prefix"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-sm">Query strings</Label>
+                <Select value={queryMode} onValueChange={(v) => setQueryMode(v as CrawlRules["queryMode"])}>
+                  <SelectTrigger data-testid="select-query-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keep" data-testid="option-query-keep">Keep all parameters</SelectItem>
+                    <SelectItem value="strip" data-testid="option-query-strip">Strip query strings</SelectItem>
+                    <SelectItem value="allowlist" data-testid="option-query-allowlist">Keep only allowed parameters</SelectItem>
+                  </SelectContent>
+                </Select>
+                {queryMode === "allowlist" && (
+                  <Input
+                    placeholder="page, lang"
+                    value={allowedParams}
+                    onChange={(e) => setAllowedParams(e.target.value)}
+                    data-testid="input-allowed-params"
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
+          {selectedMethod !== "ai" && (
+            <div className="mt-6 pt-6 border-t space-y-4">
+              <Label className="flex items-center gap-2">
+                <Timer className="w-4 h-4 text-primary" />
+                <span className="font-semibold">Crawl Politeness</span>
+              </Label>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="respect-robots" className="text-sm">Respect robots.txt</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Skip disallowed pages and honor Crawl-delay.
+                  </p>
+                </div>
+                <Switch
+                  id="respect-robots"
+                  checked={respectRobotsTxt}
+                  onCheckedChange={setRespectRobotsTxt}
+                  data-testid="switch-respect-robots"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="min-delay" className="text-sm">Delay per host (ms)</Label>
+                  <Input
+                    id="min-delay"
+                    type="number"
+                    min={0}
+                    step={50}
+                    value={minDelayMs}
+                    onChange={(e) => setMinDelayMs(parseInt(e.target.value))}
+                    data-testid="input-min-delay"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-concurrency" className="text-sm">Max requests per host</Label>
+                  <Input
+                    id="max-concurrency"
+                    type="number"
+                    min={1}
+                    max={16}
+                    value={maxConcurrency}
+                    onChange={(e) => setMaxConcurrency(parseInt(e.target.value))}
+                    data-testid="input-max-concurrency"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-total-concurrency" className="text-sm">Max parallel downloads</Label>
+                <Input
+                  id="max-total-concurrency"
+                  type="number"
+                  min={1}
+                  max={32}
+                  value={maxTotalConcurrency}
+                  onChange={(e) => setMaxTotalConcurrency(parseInt(e.target.value))}
+                  data-testid="input-max-total-concurrency"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Across all hosts. Stylesheets are fetched before images.
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="timeout-seconds" className="text-sm">Timeout (s)</Label>
+                  <Input
+                    id="timeout-seconds"
+                    type="number"
+                    min={1}
+                    value={timeoutSeconds}
+                    onChange={(e) => setTimeoutSeconds(parseInt(e.target.value))}
+                    data-testid="input-timeout-seconds"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-retries" className="text-sm">Retries</Label>
+                  <Input
+                    id="max-retries"
+                    type="number"
+                    min={0}
+                    max={10}
+                    value={maxRetries}
+                    onChange={(e) => setMaxRetries(parseInt(e.target.value))}
+                    data-testid="input-max-retries"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-response-mb" className="text-sm">Max file size (MB)</Label>
+                  <Input
+                    id="max-response-mb"
+                    type="number"
+                    min={1}
+                    value={maxResponseMb}
+                    onChange={(e) => setMaxResponseMb(parseInt(e.target.value))}
+                    data-testid="input-max-response-mb"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Timeouts, 429 and 5xx responses are retried with backoff, honoring Retry-After.
+              </p>
+            </div>
+          )}
+
+          {selectedMethod !== "ai" && (
+            <div className="mt-6 pt-6 border-t space-y-4">
+              <div>
+                <Label className="flex items-center gap-2 mb-1">
+                  <KeyRound className="w-4 h-4 text-primary" />
+                  <span className="font-semibold">Authentication</span>
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  For pages behind a login. Headers and basic auth are only sent to the site's own host; everything is stored encrypted.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auth-headers" className="text-sm">Request headers</Label>
+                <Textarea
+                  id="auth-headers"
+                  placeholder="X-Api-Key: abc123"
+                  value={authHeaders}
+                  onChange={(e) => setAuthHeaders(e.target.value)}
+                  rows={2}
+                  data-testid="textarea-auth-headers"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cookie-jar" className="text-sm">Cookies</Label>
+                <Textarea
+                  id="cookie-jar"
+                  placeholder="Paste a cookies.txt (Netscape format) or JSON cookie export"
+                  value={cookieJar}
+                  onChange={(e) => setCookieJar(e.target.value)}
+                  rows={3}
+                  className="font-mono text-xs"
+                  data-testid="textarea-cookie-jar"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="basic-auth-user" className="text-sm">Basic auth user</Label>
+                  <Input
+                    id="basic-auth-user"
+                    autoComplete="off"
+                    value={basicAuthUser}
+                    onChange={(e) => setBasicAuthUser(e.target.value)}
+                    data-testid="input-basic-auth-user"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="basic-auth-password" className="text-sm">Password</Label>
+                  <Input
+                    id="basic-auth-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={basicAuthPassword}
+                    onChange={(e) => setBasicAuthPassword(e.target.value)}
+                    data-testid="input-basic-auth-password"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="login-steps" className="text-sm">Login steps</Label>
+                <Textarea
+                  id="login-steps"
+                  placeholder={"goto https://example.com/login\nfill #email | me@example.com\nfill #password | secret\nclick button[type=submit]\nwait .dashboard"}
+                  value={loginSteps}
+                  onChange={(e) => setLoginSteps(e.target.value)}
+                  rows={4}
+                  className="font-mono text-xs"
+                  data-testid="textarea-login-steps"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Run in a browser before the clone starts, in static mode too; the cookies they leave are used for every request.
+                </p>
+              </div>
+              {authError && (
+                <p className="text-xs text-destructive" data-testid="text-auth-error">{authError}</p>
+              )}
+            </div>
+          )}
+
+          {selectedMethod === "playwright" && (
+            <div className="mt-6 pt-6 border-t space-y-4">
+              <div>
+                <Label className="flex items-center gap-2 mb-1">
+                  <MousePointerClick className="w-4 h-4 text-primary" />
+                  <span className="font-semibold">Lazy-Loaded Content</span>
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  What the browser does after the page loads, so content that appears on scroll or on click is captured.
+                </p>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="auto-scroll" className="text-sm">Scroll to the bottom</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Loads lazy images and infinite feeds.
+                  </p>
+                </div>
+                <Switch
+                  id="auto-scroll"
+                  checked={autoScroll}
+                  onCheckedChange={setAutoScroll}
+                  data-testid="switch-auto-scroll"
+                />
+              </div>
+              {autoScroll && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="max-scroll-steps" className="text-sm">Max scroll steps</Label>
+                    <Input
+                      id="max-scroll-steps"
+                      type="number"
+                      min={1}
+                      max={500}
+                      value={maxScrollSteps}
+                      onChange={(e) => setMaxScrollSteps(parseInt(e.target.value))}
+                      data-testid="input-max-scroll-steps"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="scroll-delay" className="text-sm">Delay per step (ms)</Label>
+                    <Input
+                      id="scroll-delay"
+                      type="number"
+                      min={0}
+                      step={50}
+                      value={scrollDelayMs}
+                      onChange={(e) => setScrollDelayMs(parseInt(e.target.value))}
+                      data-testid="input-scroll-delay"
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="wait-for-selectors" className="text-sm">Wait for selectors</Label>
+                <Textarea
+                  id="wait-for-selectors"
+                  placeholder=".product-grid img"
+                  value={waitForSelectors}
+                  onChange={(e) => setWaitForSelectors(e.target.value)}
+                  rows={2}
+                  data-testid="textarea-wait-for-selectors"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="click-selectors" className="text-sm">Click targets</Label>
+                <Textarea
+                  id="click-selectors"
+                  placeholder={"button.load-more\ntext=Show more"}
+                  value={clickSelectors}
+                  onChange={(e) => setClickSelectors(e.target.value)}
+                  rows={2}
+                  data-testid="textarea-click-selectors"
+                />
+                <p className="text-xs text-muted-foreground">
+                  One per line. Each is clicked until it disappears or the limit below is reached.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-clicks" className="text-sm">Max clicks per target</Label>
+                <Input
+                  id="max-clicks"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={maxClicks}
+                  onChange={(e) => setMaxClicks(parseInt(e.target.value))}
+                  data-testid="input-max-clicks"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="record-har" className="text-sm">Record a HAR archive</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Saves every request and response with the project, to download or replay offline later.
+                  </p>
+                </div>
+                <Switch
+                  id="record-har"
+                  checked={recordHar}
+                  onCheckedChange={setRecordHar}
+                  data-testid="switch-record-har"
+                />
+              </div>
+            </div>
+          )}
+
+          {selectedMethod !== "ai" && (
+            <div className="mt-6 pt-6 border-t space-y-4">
+              <div>
+                <Label className="flex items-center gap-2 mb-1">
+                  <Image className="w-4 h-4 text-primary" />
+                  <span className="font-semibold">Images &amp; Media</span>
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Which <code>srcset</code> and <code>image-set()</code> candidates to download. Others are dropped from the clone.
+                </p>
+              </div>
+              <Select value={imageCandidates} onValueChange={(v) => setImageCandidates(v as AssetOptions["imageCandidates"])}>
+                <SelectTrigger data-testid="select-image-candidates">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all" data-testid="option-candidates-all">All candidates</SelectItem>
+                  <SelectItem value="largest" data-testid="option-candidates-largest">Largest only</SelectItem>
+                  <SelectItem value="smallest" data-testid="option-candidates-smallest">Smallest only</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="max-image-width" className="text-sm">Max width (px)</Label>
+                  <Input
+                    id="max-image-width"
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    value={maxImageWidth}
+                    onChange={(e) => setMaxImageWidth(e.target.value)}
+                    data-testid="input-max-image-width"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-image-density" className="text-sm">Max density (x)</Label>
+                  <Input
+                    id="max-image-density"
+                    type="number"
+                    min={1}
+                    step={0.5}
+                    placeholder="No limit"
+                    value={maxImageDensity}
+                    onChange={(e) => setMaxImageDensity(e.target.value)}
+                    data-testid="input-max-image-density"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-media-mb" className="text-sm">Max video/audio size (MB)</Label>
+                <Input
+                  id="max-media-mb"
+                  type="number"
+                  min={1}
+                  value={maxMediaMb}
+                  onChange={(e) => setMaxMediaMb(parseInt(e.target.value))}
+                  data-testid="input-max-media-mb"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Larger files are skipped and listed as failed downloads.
+                </p>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="source-maps" className="text-sm">Download source maps</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Save the <code>.map</code> files scripts point at, for debugging the clone.
+                  </p>
+                </div>
+                <Switch
+                  id="source-maps"
+                  checked={sourceMaps}
+                  onCheckedChange={setSourceMaps}
+                  data-testid="switch-source-maps"
+                />
+              </div>
+            </div>
+          )}
         </div>
 
         <DialogFooter>
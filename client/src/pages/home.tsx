@@ -1,7 +1,7 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { type Project, type File as ProjectFile } from "@shared/schema";
+import { type Project, type File as ProjectFile, type CrawlRules, type CrawlPoliteness, type AssetOptions, type RenderOptions, type AuthProfileInput } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import FileExplorer from "@/components/FileExplorer";
 import CodeEditor from "@/components/CodeEditor";
@@ -11,7 +11,7 @@ import SuccessModal from "@/components/SuccessModal";
 import SettingsDialog from "@/components/SettingsDialog";
 import EstimateDialog from "@/components/EstimateDialog";
 import SitePreview from "@/components/SitePreview";
-import { Globe, Download, Settings, HelpCircle, FileCode, Code, Monitor, Eye, Zap, Loader2, Edit2, Check, X } from "lucide-react";
+import { Globe, Download, Settings, HelpCircle, FileCode, Code, Monitor, Eye, Zap, Loader2, Edit2, Check, X, Ban, FileUp, KeyRound } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -25,8 +25,34 @@ export default function Home() {
   const [showSettings, setShowSettings] = useState(false);
   const [showEstimate, setShowEstimate] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const harInputRef = useRef<HTMLInputElement>(null);
   const [cloneMethod, setCloneMethod] = useState<"static" | "playwright" | "ai">("static");
   const [crawlDepth, setCrawlDepth] = useState<number>(0);
+  const [crawlRules, setCrawlRules] = useState<CrawlRules>({ include: [], exclude: [], queryMode: "keep", allowedParams: [], useSitemap: false });
+  const [politeness, setPoliteness] = useState<CrawlPoliteness>({
+    respectRobotsTxt: true,
+    minDelayMs: 250,
+    maxConcurrency: 2,
+    maxTotalConcurrency: 6,
+    timeoutMs: 30000,
+    maxRetries: 3,
+    maxResponseBytes: 50 * 1024 * 1024,
+  });
+  const [assetOptions, setAssetOptions] = useState<AssetOptions>({
+    imageCandidates: "all",
+    maxMediaBytes: 25 * 1024 * 1024,
+    sourceMaps: false,
+  });
+  const [renderOptions, setRenderOptions] = useState<RenderOptions>({
+    autoScroll: true,
+    maxScrollSteps: 50,
+    scrollDelayMs: 250,
+    waitForSelectors: [],
+    clickSelectors: [],
+    maxClicks: 10,
+    recordHar: false,
+  });
+  const [authProfile, setAuthProfile] = useState<AuthProfileInput | null>(null);
   const [deviceProfiles, setDeviceProfiles] = useState<string[]>(["desktop"]);
   const [estimate, setEstimate] = useState<{
     estimatedTime: number;
@@ -184,6 +210,22 @@ export default function Home() {
               description: updatedProject.errorMessage || "Unknown error occurred",
               variant: "destructive",
             });
+          } else if (updatedProject.status === "cancelled") {
+            setActiveClones((prev) => {
+              const newSet = new Set(prev);
+              newSet.delete(updatedProject.id);
+              return newSet;
+            });
+
+            if (currentProject?.id === updatedProject.id) {
+              setShowProgress(false);
+              setCurrentProject(updatedProject);
+            }
+
+            toast({
+              title: "Clone Cancelled",
+              description: `${updatedProject.name} was cancelled`,
+            });
           } else if (currentProject?.id === updatedProject.id) {
             // Update current project if still processing
             setCurrentProject(updatedProject);
@@ -207,7 +249,7 @@ export default function Home() {
   });
 
   const estimateMutation = useMutation({
-    mutationFn: async (data: { url: string; cloneMethod: string; crawlDepth: number; deviceProfiles?: string[] }) => {
+    mutationFn: async (data: { url: string; cloneMethod: string; crawlDepth: number; crawlRules?: CrawlRules; authProfile?: AuthProfileInput; deviceProfiles?: string[] }) => {
       if (data.cloneMethod === "ai") {
         const deviceCount = data.deviceProfiles?.length || 1;
         return {
@@ -256,43 +298,80 @@ export default function Home() {
     },
   });
 
+  const trackStartedClone = (project: Project) => {
+    // Add to active clones
+    setActiveClones((prev) => new Set(prev).add(project.id));
+
+    // Initialize progress for this project
+    setProgressByProject((prev) => {
+      const newMap = new Map(prev);
+      newMap.set(project.id, { progress: 0, step: "Starting...", currentFile: "", generatedCode: "", deviceProfile: "" });
+      return newMap;
+    });
+
+    // Set as current project and show progress
+    setCurrentProject(project);
+    setSelectedProjectId(project.id); // Set selected project ID
+    setShowProgress(true);
+    setShowEstimate(false);
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+
+    toast({
+      title: "Clone Started",
+      description: `Cloning ${project.name} in the background`,
+    });
+  };
+
   const createProjectMutation = useMutation({
-    mutationFn: async (data: { url: string; name: string; displayName?: string; cloneMethod: string; crawlDepth: number; deviceProfiles?: string[] }) => {
+    mutationFn: async (data: { url: string; name: string; displayName?: string; cloneMethod: string; crawlDepth: number; crawlRules?: CrawlRules; politeness?: CrawlPoliteness; assetOptions?: AssetOptions; renderOptions?: RenderOptions; authProfile?: AuthProfileInput; deviceProfiles?: string[] }) => {
       const res = await apiRequest("POST", "/api/projects", data);
       return res.json();
     },
-    onSuccess: (project: Project) => {
-      // Add to active clones
-      setActiveClones((prev) => new Set(prev).add(project.id));
-
-      // Initialize progress for this project
-      setProgressByProject((prev) => {
-        const newMap = new Map(prev);
-        newMap.set(project.id, { progress: 0, step: "Starting...", currentFile: "", generatedCode: "", deviceProfile: "" });
-        return newMap;
+    onSuccess: trackStartedClone,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
       });
+    },
+  });
 
-      // Set as current project and show progress
-      setCurrentProject(project);
-      setSelectedProjectId(project.id); // Set selected project ID
-      setShowProgress(true);
-      setShowEstimate(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
-
-      toast({
-        title: "Clone Started",
-        description: `Cloning ${project.name} in the background`,
+  // Replays clone from a HAR with the current crawl and asset settings, never touching the network
+  const replayHarMutation = useMutation({
+    mutationFn: async (source: { har: unknown; name: string } | { sourceProjectId: string }) => {
+      const res = await apiRequest("POST", "/api/replay", {
+        ...source,
+        crawlDepth,
+        crawlRules: crawlDepth > 0 ? crawlRules : undefined,
+        assetOptions,
+        renderOptions: { ...renderOptions, recordHar: false },
       });
+      return res.json();
     },
+    onSuccess: trackStartedClone,
     onError: (error: Error) => {
       toast({
-        title: "Error",
+        title: "Replay Failed",
         description: error.message,
         variant: "destructive",
       });
     },
   });
 
+  const handleHarUpload = async (file: File) => {
+    try {
+      const har = JSON.parse(await file.text());
+      replayHarMutation.mutate({ har, name: file.name.replace(/\.har$/i, "") });
+    } catch {
+      toast({
+        title: "Error",
+        description: `${file.name} is not a valid HAR file`,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleClone = () => {
     if (!url) {
       toast({
@@ -305,7 +384,14 @@ export default function Home() {
 
     try {
       new URL(url);
-      estimateMutation.mutate({ url, cloneMethod, crawlDepth, deviceProfiles: cloneMethod === "ai" ? deviceProfiles : undefined });
+      estimateMutation.mutate({
+        url,
+        cloneMethod,
+        crawlDepth,
+        crawlRules: crawlDepth > 0 ? crawlRules : undefined,
+        authProfile: cloneMethod !== "ai" ? authProfile ?? undefined : undefined,
+        deviceProfiles: cloneMethod === "ai" ? deviceProfiles : undefined,
+      });
     } catch {
       toast({
         title: "Error",
@@ -332,6 +418,11 @@ export default function Home() {
         displayName: name,
         cloneMethod, 
         crawlDepth,
+        crawlRules: crawlDepth > 0 ? crawlRules : undefined,
+        politeness: cloneMethod !== "ai" ? politeness : undefined,
+        assetOptions: cloneMethod !== "ai" ? assetOptions : undefined,
+        renderOptions: cloneMethod === "playwright" ? renderOptions : undefined,
+        authProfile: cloneMethod !== "ai" ? authProfile ?? undefined : undefined,
         deviceProfiles: cloneMethod === "ai" ? deviceProfiles : undefined
       });
     } catch {
@@ -387,6 +478,30 @@ export default function Home() {
               <Download className="w-4 h-4" />
               <span className="ml-2">Clone Site</span>
             </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Replay a HAR file"
+              onClick={() => harInputRef.current?.click()}
+              disabled={replayHarMutation.isPending}
+              data-testid="button-upload-har"
+            >
+              <FileUp className="w-4 h-4" />
+            </Button>
+            <input
+              ref={harInputRef}
+              type="file"
+              accept=".har,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) {
+                  handleHarUpload(file);
+                }
+              }}
+              data-testid="input-har-file"
+            />
             <Button variant="outline" size="icon" onClick={() => setShowSettings(true)} data-testid="button-settings-mobile">
               <Settings className="w-4 h-4" />
             </Button>
@@ -505,6 +620,11 @@ export default function Home() {
                   <p className="text-xs text-muted-foreground truncate mt-1">{project.url}</p>
                 </div>
                 <div className="flex items-center gap-1 flex-shrink-0">
+                  {project.authProfile && (
+                    <span title="Cloned with an auth profile" data-testid={`icon-auth-${project.id}`}>
+                      <KeyRound className="w-3 h-3 text-muted-foreground" />
+                    </span>
+                  )}
                   {project.status === "processing" && (
                     <Loader2 className="w-4 h-4 animate-spin text-primary" />
                   )}
@@ -517,6 +637,9 @@ export default function Home() {
                   {project.status === "error" && (
                     <Zap className="w-4 h-4 text-red-500" />
                   )}
+                  {project.status === "cancelled" && (
+                    <Ban className="w-4 h-4 text-muted-foreground" />
+                  )}
                 </div>
               </div>
               {/* Optional: Display progress within the project list item */}
@@ -574,6 +697,7 @@ export default function Home() {
                       }
                     }}
                     onProjectSelect={setSelectedProjectId} // Pass setSelectedProjectId here
+                    onReplayHar={(sourceProjectId) => replayHarMutation.mutate({ sourceProjectId })}
                   />
                 </TabsContent>
               </Tabs>
@@ -636,10 +760,20 @@ export default function Home() {
         cloneMethod={cloneMethod}
         crawlDepth={crawlDepth}
         deviceProfiles={deviceProfiles}
-        onSave={(method, depth, profiles) => {
+        crawlRules={crawlRules}
+        politeness={politeness}
+        assetOptions={assetOptions}
+        renderOptions={renderOptions}
+        authProfile={authProfile}
+        onSave={(method, depth, profiles, rules, politenessSettings, assetSettings, renderSettings, authSettings) => {
           setCloneMethod(method);
           setCrawlDepth(depth);
           setDeviceProfiles(profiles);
+          setCrawlRules(rules);
+          setPoliteness(politenessSettings);
+          setAssetOptions(assetSettings);
+          setRenderOptions(renderSettings);
+          setAuthProfile(authSettings);
         }}
       />
 
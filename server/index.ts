@@ -9,6 +9,8 @@ declare module 'http' {
     rawBody: unknown
   }
 }
+// HAR archives uploaded for replay are far larger than any other request body
+app.use("/api/replay", express.json({ limit: "200mb" }));
 app.use(express.json({
   verify: (req, _res, buf) => {
     req.rawBody = buf;
@@ -1,13 +1,18 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { cloneService } from "./services/clone";
 import { aiCloneService } from "./services/aiClone";
 import { fileManager } from "./services/fileManager";
-import { insertProjectSchema, updateProjectNameSchema } from "@shared/schema";
+import { UnsafePathError, isSafeProjectId } from "./services/safePath";
+import { BlockedUrlError, urlGuard } from "./services/urlGuard";
+import { harSchema, harStartUrl } from "./services/har";
+import { openAuthProfile, redactProject, resolveAuthProfile, sealAuthProfile } from "./services/authProfile";
+import { insertProjectSchema, updateProjectNameSchema, crawlRulesSchema } from "@shared/schema";
 import { WebSocketServer } from "ws";
 import archiver from "archiver";
 import path from "path";
+import fs from "fs/promises";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
@@ -36,7 +41,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/projects", async (_req, res) => {
     try {
       const projects = await storage.getAllProjects();
-      res.json(projects);
+      res.json(projects.map(redactProject));
     } catch (error) {
       res.status(500).json({
         message: error instanceof Error ? error.message : "Failed to fetch projects",
@@ -47,20 +52,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Estimate clone before starting
   app.post("/api/estimate", async (req, res) => {
     try {
-      const { url, cloneMethod, crawlDepth } = req.body;
+      const { url, cloneMethod, crawlDepth, crawlRules } = req.body;
       if (!url) {
         return res.status(400).json({ message: "URL is required" });
       }
+      await urlGuard.check(url);
 
       const estimate = await cloneService.estimateClone(
         url,
         cloneMethod || "static",
-        crawlDepth || 0
+        crawlDepth || 0,
+        crawlRules ? crawlRulesSchema.parse(crawlRules) : null,
+        resolveAuthProfile(req.body.authProfile)
       );
 
       res.json(estimate);
     } catch (error) {
-      res.status(500).json({
+      res.status(error instanceof BlockedUrlError ? 400 : 500).json({
         message: error instanceof Error ? error.message : "Failed to estimate",
       });
     }
@@ -70,16 +78,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/projects", async (req, res) => {
     try {
       const data = insertProjectSchema.parse(req.body);
+      if (data.cloneMethod === "replay") {
+        return res.status(400).json({ message: "Replay clones start from a HAR archive, see /api/replay" });
+      }
+      // Refuse internal targets up front; the clone itself re-checks every request
+      await urlGuard.check(data.url);
 
       const cloneMethod = (data.cloneMethod || "static") as "static" | "playwright" | "ai";
       const crawlDepth = data.crawlDepth || 0;
+      // AI clones work from screenshots of the public page and don't take credentials
+      const authProfile = cloneMethod !== "ai" ? resolveAuthProfile(req.body.authProfile) : null;
 
       let estimate = { estimatedTime: 0, estimatedSize: 0, resourceCount: 0 };
       if (cloneMethod !== "ai") {
         estimate = await cloneService.estimateClone(
           data.url,
           cloneMethod as "static" | "playwright",
-          crawlDepth
+          crawlDepth,
+          data.crawlRules,
+          authProfile
         );
       } else {
         const deviceCount = data.deviceProfiles?.length || 1;
@@ -94,6 +111,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...data,
         estimatedTime: estimate.estimatedTime,
         estimatedSize: estimate.estimatedSize,
+        authProfile: authProfile ? sealAuthProfile(authProfile) : null,
       });
 
       // Start cloning in background based on method
@@ -128,14 +146,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
               });
             },
             cloneMethod as "static" | "playwright",
-            data.crawlDepth || 0
+            data.crawlDepth || 0,
+            {
+              crawlRules: data.crawlRules,
+              politeness: data.politeness,
+              assetOptions: data.assetOptions,
+              renderOptions: data.renderOptions,
+              authProfile,
+            }
           )
           .catch((error) => {
             console.error("Clone error:", error);
           });
       }
 
-      res.json(project);
+      res.json(redactProject(project));
     } catch (error) {
       res.status(400).json({
         message: error instanceof Error ? error.message : "Failed to create project",
@@ -143,6 +168,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Clone from a HAR archive, uploaded or recorded by an earlier Playwright clone, without network access
+  app.post("/api/replay", async (req, res) => {
+    try {
+      const { har, sourceProjectId, name } = req.body;
+
+      let content: string;
+      let defaultName: string | null = null;
+      if (sourceProjectId) {
+        const source = await storage.getProject(sourceProjectId);
+        if (!source || !(await fileManager.hasHar(source.id))) {
+          return res.status(404).json({ message: "No HAR archive recorded for this project" });
+        }
+        content = await fs.readFile(fileManager.getHarPath(source.id), "utf-8");
+        defaultName = `${source.displayName || source.name}_replay`;
+      } else {
+        content = JSON.stringify(har);
+      }
+
+      const archive = harSchema.parse(JSON.parse(content));
+      const url = harStartUrl(archive);
+      if (!url) {
+        return res.status(400).json({ message: "The HAR archive has no pages to replay" });
+      }
+
+      const projectName = name || defaultName || `${new URL(url).hostname}_replay`;
+      const data = insertProjectSchema.parse({
+        url,
+        name: projectName,
+        displayName: projectName,
+        cloneMethod: "replay",
+        crawlDepth: req.body.crawlDepth,
+        crawlRules: req.body.crawlRules,
+        politeness: { minDelayMs: 0 }, // nothing goes to the network, so there is no one to be polite to
+        assetOptions: req.body.assetOptions,
+        renderOptions: req.body.renderOptions ? { ...req.body.renderOptions, recordHar: false } : undefined,
+      });
+      const project = await storage.createProject(data);
+      await fileManager.saveHar(project.id, JSON.stringify(archive));
+
+      cloneService
+        .cloneWebsite(
+          project.id,
+          url,
+          (progress, step, currentFile) => {
+            broadcastProgress(project.id, {
+              progress,
+              step,
+              currentFile,
+            });
+          },
+          "replay",
+          data.crawlDepth || 0,
+          {
+            crawlRules: data.crawlRules,
+            politeness: data.politeness,
+            assetOptions: data.assetOptions,
+            renderOptions: data.renderOptions,
+          }
+        )
+        .catch((error) => {
+          console.error("Replay error:", error);
+        });
+
+      res.json(redactProject(project));
+    } catch (error) {
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Failed to replay HAR archive",
+      });
+    }
+  });
+
   // Get project by ID
   app.get("/api/projects/:id", async (req, res) => {
     try {
@@ -150,7 +246,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
-      res.json(project);
+      res.json(redactProject(project));
     } catch (error) {
       res.status(500).json({
         message: error instanceof Error ? error.message : "Failed to fetch project",
@@ -164,7 +260,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { displayName } = updateProjectNameSchema.parse(req.body);
       await storage.updateProjectName(req.params.id, displayName);
       const project = await storage.getProject(req.params.id);
-      res.json(project);
+      res.json(project && redactProject(project));
     } catch (error) {
       res.status(400).json({
         message: error instanceof Error ? error.message : "Failed to update project name",
@@ -197,11 +293,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete project
   app.delete("/api/projects/:id", async (req, res) => {
     try {
+      // A running clone would keep writing into the folder and updating the deleted project
+      if (cloneService.isCloneRunning(req.params.id) || aiCloneService.isCloneRunning(req.params.id)) {
+        return res.status(409).json({ message: "Project is still being cloned, cancel it first" });
+      }
       await fileManager.deleteProject(req.params.id);
       await storage.deleteProject(req.params.id);
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({
+      res.status(error instanceof UnsafePathError ? 400 : 500).json({
         message: error instanceof Error ? error.message : "Failed to delete project",
       });
     }
@@ -219,6 +319,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get crawled pages for a project (with crawl depth and parent page)
+  app.get("/api/projects/:id/pages", async (req, res) => {
+    try {
+      const pages = await storage.getPagesByProject(req.params.id);
+      res.json(pages);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to fetch pages",
+      });
+    }
+  });
+
+  // Get the per-resource download log for a project
+  app.get("/api/projects/:id/resources", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const resources = await storage.getResourcesByProject(req.params.id);
+      const status = typeof req.query.status === "string" ? req.query.status : null;
+      res.json(status ? resources.filter((resource) => resource.status === status) : resources);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to fetch resources",
+      });
+    }
+  });
+
+  // Re-download failed resources and patch the saved pages/stylesheets
+  app.post("/api/projects/:id/retry-failed", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (project.status === "processing") {
+        return res.status(409).json({ message: "Project is still being cloned" });
+      }
+
+      const result = await cloneService.retryFailedResources(project.id);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to retry resources",
+      });
+    }
+  });
+
   // Get file content
   app.get("/api/files/:id", async (req, res) => {
     try {
@@ -255,7 +405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
 
-      const projectDir = path.join("./cloned_sites", req.params.id);
+      const projectDir = fileManager.getProjectDir(project.id);
 
       res.attachment(`${project.name}.zip`);
 
@@ -277,13 +427,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download the HAR archive a project recorded or was replayed from
+  app.get("/api/projects/:id/har", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project || !(await fileManager.hasHar(project.id))) {
+        return res.status(404).json({ message: "No HAR archive recorded for this project" });
+      }
+
+      res.download(path.resolve(fileManager.getHarPath(project.id)), `${project.name}.har`);
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to download HAR archive",
+      });
+    }
+  });
+
   // Preview project (serve cloned site)
   app.use("/api/projects/:id/preview", (req, res) => {
-    const projectDir = path.join("./cloned_sites", req.params.id);
-    const indexPath = path.join(projectDir, "index.html");
-    
+    // Relative links in cloned pages (./css/..., ./about.html) need a trailing slash to resolve
+    if (req.path === "/" && !req.originalUrl.split("?")[0].endsWith("/")) {
+      return res.redirect(301, req.originalUrl.replace(/^([^?]*)/, "$1/"));
+    }
+
+    if (!isSafeProjectId(req.params.id)) {
+      return res.status(404).json({ message: "Preview not available" });
+    }
+
+    const projectDir = fileManager.getProjectDir(req.params.id);
+    const indexPath = path.resolve(projectDir, "index.html");
+
     // Serve static files from the project directory
-    const express = require("express");
     express.static(projectDir)(req, res, () => {
       res.sendFile(indexPath, (err: Error) => {
         if (err) {
@@ -300,13 +474,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
+      if (project.status !== "processing" && project.status !== "pending") {
+        return res.status(409).json({ message: `Cannot pause a project that is ${project.status}` });
+      }
 
       await storage.updateProjectStatus(req.params.id, "paused", {
         isPaused: 1,
       });
+      cloneService.pauseClone(req.params.id);
+      aiCloneService.pauseClone(req.params.id);
 
       const updatedProject = await storage.getProject(req.params.id);
-      res.json(updatedProject);
+      res.json(updatedProject && redactProject(updatedProject));
     } catch (error) {
       res.status(500).json({
         message: error instanceof Error ? error.message : "Failed to pause project",
@@ -314,6 +493,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cancel project cloning, aborting any work in flight
+  app.post("/api/projects/:id/cancel", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (project.status !== "processing" && project.status !== "paused" && project.status !== "pending") {
+        return res.status(409).json({ message: `Cannot cancel a project that is ${project.status}` });
+      }
+
+      await storage.updateProjectStatus(req.params.id, "cancelled", {
+        isPaused: 0,
+        checkpoint: null,
+        currentStep: "Clone cancelled",
+      });
+      cloneService.cancelClone(req.params.id);
+      aiCloneService.cancelClone(req.params.id);
+
+      const updatedProject = await storage.getProject(req.params.id);
+      res.json(updatedProject && redactProject(updatedProject));
+    } catch (error) {
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to cancel project",
+      });
+    }
+  });
+
   // Resume project cloning
   app.post("/api/projects/:id/resume", async (req, res) => {
     try {
@@ -322,30 +529,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
 
+      if (cloneService.isCloneRunning(project.id) || aiCloneService.isCloneRunning(project.id)) {
+        return res.status(409).json({ message: "Project is still pausing, try again in a moment" });
+      }
+      // Only a paused clone has a checkpoint to continue from; anything else would start over on top of it
+      if (project.status !== "paused") {
+        return res.status(409).json({ message: `Cannot resume a project that is ${project.status}` });
+      }
+      // Before the status changes, so a profile that can't be decrypted leaves the project paused
+      const authProfile = openAuthProfile(project.authProfile);
+
       await storage.updateProjectStatus(req.params.id, "processing", {
         isPaused: 0,
       });
 
-      // Resume cloning from where it left off
-      cloneService
-        .cloneWebsite(
-          project.id,
-          project.url,
-          (progress, step, currentFile) => {
-            broadcastProgress(project.id, {
-              progress,
-              step,
-              currentFile,
-            });
-          },
-          project.cloneMethod as "static" | "playwright" || "playwright"
-        )
-        .catch((error) => {
-          console.error("Clone error:", error);
-        });
+      // Resume cloning from the checkpoint saved when it was paused
+      if (project.cloneMethod === "ai") {
+        aiCloneService
+          .cloneWithAI(
+            project.id,
+            project.url,
+            project.deviceProfiles || ["desktop"],
+            (progress, step, generatedCode, deviceProfile) => {
+              broadcastProgress(project.id, {
+                progress,
+                step,
+                generatedCode,
+                deviceProfile,
+              });
+            },
+            project.checkpoint
+          )
+          .catch((error) => {
+            console.error("AI Clone error:", error);
+          });
+      } else {
+        cloneService
+          .cloneWebsite(
+            project.id,
+            project.url,
+            (progress, step, currentFile) => {
+              broadcastProgress(project.id, {
+                progress,
+                step,
+                currentFile,
+              });
+            },
+            project.cloneMethod as "static" | "playwright" | "replay" || "playwright",
+            project.crawlDepth || 0,
+            {
+              crawlRules: project.crawlRules,
+              politeness: project.politeness,
+              assetOptions: project.assetOptions,
+              renderOptions: project.renderOptions,
+              authProfile,
+              checkpoint: project.checkpoint ?? {},
+            }
+          )
+          .catch((error) => {
+            console.error("Clone error:", error);
+          });
+      }
 
       const updatedProject = await storage.getProject(req.params.id);
-      res.json(updatedProject);
+      res.json(updatedProject && redactProject(updatedProject));
     } catch (error) {
       res.status(500).json({
         message: error instanceof Error ? error.message : "Failed to resume project",
@@ -2,7 +2,8 @@ import OpenAI from "openai";
 import { playwrightService } from "./playwright";
 import { fileManager } from "./fileManager";
 import { storage } from "../storage";
-import { deviceProfiles, type DeviceProfile } from "@shared/schema";
+import { CloneSignal } from "./cloneSignal";
+import { deviceProfiles, type DeviceProfile, type CloneCheckpoint } from "@shared/schema";
 
 // Lazy initialization of OpenAI client to avoid startup errors when API key is missing
 let openaiInstance: OpenAI | null = null;
@@ -24,12 +25,46 @@ interface AICloneCallback {
 }
 
 export class AICloneService {
+  // Stop signals for AI clones currently running in this process
+  private running = new Map<string, CloneSignal>();
+
+  isCloneRunning(projectId: string): boolean {
+    return this.running.has(projectId);
+  }
+
+  /**
+   * Stop a running AI clone and keep the devices finished so far for a
+   * resume. The device in progress is abandoned and captured again then.
+   * Returns false if no clone is running for the project.
+   */
+  pauseClone(projectId: string): boolean {
+    const signal = this.running.get(projectId);
+    signal?.stop("paused");
+    return signal !== undefined;
+  }
+
+  /**
+   * Abort a running AI clone, including the page render and the OpenAI
+   * stream in flight. Returns false if no clone is running for the project.
+   */
+  cancelClone(projectId: string): boolean {
+    const signal = this.running.get(projectId);
+    signal?.stop("cancelled");
+    return signal !== undefined;
+  }
+
   async cloneWithAI(
     projectId: string,
     url: string,
     selectedDeviceProfiles: string[],
-    onProgress?: AICloneCallback
+    onProgress?: AICloneCallback,
+    checkpoint?: CloneCheckpoint | null
   ): Promise<void> {
+    const signal = new CloneSignal();
+    this.running.set(projectId, signal);
+    // Devices finished before a pause already have their files saved
+    const finishedDevices = new Set(checkpoint?.completedDevices ?? []);
+
     try {
       onProgress?.(5, "Initializing AI cloning...");
       await storage.updateProjectStatus(projectId, "processing", {
@@ -51,9 +86,13 @@ export class AICloneService {
       let completedDevices = 0;
 
       for (const deviceProfile of deviceProfileObjects) {
-        const project = await storage.getProject(projectId);
-        if (project?.isPaused === 1) {
-          await storage.updateProjectStatus(projectId, "paused");
+        if (finishedDevices.has(deviceProfile.id)) {
+          completedDevices++;
+          continue;
+        }
+
+        if (signal.stopped) {
+          await this.markStopped(projectId, signal, finishedDevices);
           return;
         }
 
@@ -71,7 +110,7 @@ export class AICloneService {
           progressPercentage: deviceProgress,
         });
 
-        const snapshot = await this.captureDeviceSnapshot(url, deviceProfile);
+        const snapshot = await this.captureDeviceSnapshot(url, deviceProfile, signal.abortSignal);
 
         onProgress?.(
           deviceProgress + 5,
@@ -95,7 +134,8 @@ export class AICloneService {
               codeChunk,
               deviceProfile.id
             );
-          }
+          },
+          signal.abortSignal
         );
 
         await this.saveGeneratedFiles(
@@ -104,6 +144,7 @@ export class AICloneService {
           deviceProfile.id
         );
 
+        finishedDevices.add(deviceProfile.id);
         completedDevices++;
       }
 
@@ -116,25 +157,53 @@ export class AICloneService {
       const allFiles = await storage.getFilesByProject(projectId);
       const totalSize = allFiles.reduce((sum, file) => sum + (file.size || 0), 0);
 
+      // A pause or cancel that arrived while the last device was saved wins over completing
+      if (signal.stopped) {
+        await this.markStopped(projectId, signal, finishedDevices);
+        return;
+      }
       await storage.updateProjectStatus(projectId, "complete", {
         totalFiles: allFiles.length,
         totalSize,
+        checkpoint: null,
         currentStep: "AI clone complete",
         progressPercentage: 100,
       });
 
       onProgress?.(100, "AI clone complete");
     } catch (error) {
+      if (signal.stopped) {
+        await this.markStopped(projectId, signal, finishedDevices);
+        return;
+      }
+
       await storage.updateProjectStatus(projectId, "error", {
         errorMessage: error instanceof Error ? error.message : "AI cloning failed",
       });
       throw error;
+    } finally {
+      this.running.delete(projectId);
     }
   }
 
+  // A paused run keeps the finished devices as its checkpoint; a cancelled one keeps nothing
+  private async markStopped(projectId: string, signal: CloneSignal, finishedDevices: Set<string>): Promise<void> {
+    if (signal.reason === "cancelled") {
+      await storage.updateProjectStatus(projectId, "cancelled", {
+        checkpoint: null,
+        currentStep: "Clone cancelled",
+      });
+      return;
+    }
+    await storage.updateProjectStatus(projectId, "paused", {
+      checkpoint: { completedDevices: Array.from(finishedDevices) },
+    });
+  }
+
   private async captureDeviceSnapshot(
     url: string,
-    deviceProfile: DeviceProfile
+    deviceProfile: DeviceProfile,
+    signal?: AbortSignal
   ): Promise<{
     html: string;
     computedStyles: any;
@@ -144,6 +213,8 @@ export class AICloneService {
     const result = await playwrightService.renderPage(url, undefined, {
       viewport: deviceProfile.viewport,
       userAgent: deviceProfile.userAgent,
+      signal,
+      keepOpen: true,
     });
 
     const page = await playwrightService.getPage();
@@ -151,39 +222,43 @@ export class AICloneService {
       throw new Error("Browser page not available");
     }
 
-    const computedStyles = await page.evaluate(() => {
-      const elements = document.querySelectorAll("*");
-      const styles: any = {};
-      elements.forEach((el, idx) => {
-        const computed = window.getComputedStyle(el);
-        styles[idx] = {
-          tag: el.tagName.toLowerCase(),
-          className: el.className,
-          id: el.id,
-          display: computed.display,
-          position: computed.position,
-          width: computed.width,
-          height: computed.height,
-          margin: computed.margin,
-          padding: computed.padding,
-          fontSize: computed.fontSize,
-          color: computed.color,
-          backgroundColor: computed.backgroundColor,
-        };
+    try {
+      const computedStyles = await page.evaluate(() => {
+        const elements = document.querySelectorAll("*");
+        const styles: any = {};
+        elements.forEach((el, idx) => {
+          const computed = window.getComputedStyle(el);
+          styles[idx] = {
+            tag: el.tagName.toLowerCase(),
+            className: el.className,
+            id: el.id,
+            display: computed.display,
+            position: computed.position,
+            width: computed.width,
+            height: computed.height,
+            margin: computed.margin,
+            padding: computed.padding,
+            fontSize: computed.fontSize,
+            color: computed.color,
+            backgroundColor: computed.backgroundColor,
+          };
+        });
+        return styles;
       });
-      return styles;
-    });
 
-    const screenshot = await page.screenshot({
-      fullPage: true,
-    });
+      const screenshot = await page.screenshot({
+        fullPage: true,
+      });
 
-    return {
-      html: result.html,
-      computedStyles,
-      screenshot: screenshot.toString("base64"),
-      viewport: deviceProfile.viewport,
-    };
+      return {
+        html: result.html,
+        computedStyles,
+        screenshot: screenshot.toString("base64"),
+        viewport: deviceProfile.viewport,
+      };
+    } finally {
+      await playwrightService.closePage();
+    }
   }
 
   private async generateResponsiveCode(
@@ -195,7 +270,8 @@ export class AICloneService {
     },
     deviceProfile: DeviceProfile,
     originalUrl: string,
-    onCodeChunk?: (code: string) => void
+    onCodeChunk?: (code: string) => void,
+    signal?: AbortSignal
   ): Promise<{ html: string; css: string; js: string }> {
     const prompt = `You are an expert web developer tasked with creating a pixel-perfect 1:1 recreation of a website for ${deviceProfile.name} (${snapshot.viewport.width}x${snapshot.viewport.height}px).
 
@@ -257,7 +333,7 @@ Respond with a JSON object containing:
       ],
       response_format: { type: "json_object" },
       stream: true,
-    });
+    }, { signal });
 
     let fullResponse = "";
     for await (const chunk of stream) {
@@ -290,7 +366,7 @@ Respond with a JSON object containing:
     if (code.html) {
       const htmlPath = `${prefix}index.html`;
       await fileManager.saveFile(projectId, htmlPath, code.html);
-      await storage.createFile({
+      await storage.upsertFile({
         projectId,
         path: htmlPath,
         content: code.html,
@@ -302,7 +378,7 @@ Respond with a JSON object containing:
     if (code.css) {
       const cssPath = `${prefix}styles.css`;
       await fileManager.saveFile(projectId, cssPath, code.css);
-      await storage.createFile({
+      await storage.upsertFile({
         projectId,
         path: cssPath,
         content: code.css,
@@ -314,7 +390,7 @@ Respond with a JSON object containing:
     if (code.js) {
       const jsPath = `${prefix}script.js`;
       await fileManager.saveFile(projectId, jsPath, code.js);
-      await storage.createFile({
+      await storage.upsertFile({
         projectId,
         path: jsPath,
         content: code.js,
@@ -0,0 +1,258 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { URL } from "url";
+import {
+  authProfileInputSchema,
+  type AuthCookie,
+  type AuthProfile,
+  type AuthProfileSummary,
+  type LoginStep,
+  type Project,
+  type StoredAuthProfile,
+} from "@shared/schema";
+
+const CIPHER = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function loadKey(): Buffer {
+  const secret = process.env.AUTH_PROFILE_KEY;
+  if (secret) {
+    return scryptSync(secret, "sitesnapshot-auth-profile", 32);
+  }
+  console.warn("AUTH_PROFILE_KEY is not set: auth profiles are encrypted with a key that is lost on restart");
+  return randomBytes(32);
+}
+
+const key = loadKey();
+
+/**
+ * Parse a cookie jar export: Netscape cookies.txt (as written by curl, wget
+ * and browser extensions, `#HttpOnly_` lines included) or JSON, either an
+ * array of cookies or Playwright's storage state (`{ cookies: [...] }`).
+ */
+export function parseCookieJar(text: string): AuthCookie[] {
+  const trimmed = text.trim();
+  if (trimmed === "") {
+    return [];
+  }
+  return trimmed.startsWith("[") || trimmed.startsWith("{") ? parseJsonJar(trimmed) : parseNetscapeJar(text);
+}
+
+function parseNetscapeJar(text: string): AuthCookie[] {
+  const cookies: AuthCookie[] = [];
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    // Not trimmed at the end: an empty value leaves a trailing tab
+    let line = rawLine.trimStart();
+    let httpOnly = false;
+    if (line.startsWith("#HttpOnly_")) {
+      line = line.slice("#HttpOnly_".length);
+      httpOnly = true;
+    } else if (line.trim() === "" || line.startsWith("#")) {
+      return;
+    }
+
+    const fields = line.split("\t");
+    if (fields.length < 7) {
+      throw new Error(`Line ${index + 1} of the cookie jar is not in Netscape format`);
+    }
+    const [domain, includeSubdomains, path, secure, expires, name, ...value] = fields;
+    const bareDomain = domain.replace(/^\./, "");
+    cookies.push({
+      name,
+      value: value.join("\t"),
+      domain: includeSubdomains.toUpperCase() === "TRUE" ? `.${bareDomain}` : bareDomain,
+      path: path || "/",
+      expires: Number(expires) > 0 ? Number(expires) : undefined,
+      httpOnly,
+      secure: secure.toUpperCase() === "TRUE",
+    });
+  });
+  return cookies;
+}
+
+function parseJsonJar(text: string): AuthCookie[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error("The cookie jar is not valid JSON");
+  }
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { cookies?: unknown }).cookies;
+  if (!Array.isArray(entries)) {
+    throw new Error("A JSON cookie jar must be an array of cookies or an object with a `cookies` array");
+  }
+
+  return entries.map((entry, index) => {
+    const { name, value, domain, path, expires, expirationDate, httpOnly, secure, sameSite, hostOnly } = entry ?? {};
+    if (typeof name !== "string" || typeof domain !== "string") {
+      throw new Error(`Cookie ${index + 1} in the jar has no name or domain`);
+    }
+    // Browser extensions export `expirationDate` and `hostOnly`; Playwright uses `expires`, -1 for session cookies
+    const expiry = Number(expires ?? expirationDate);
+    const bareDomain = domain.replace(/^\./, "");
+    return {
+      name,
+      value: String(value ?? ""),
+      domain: hostOnly === false || (hostOnly === undefined && domain.startsWith(".")) ? `.${bareDomain}` : bareDomain,
+      path: typeof path === "string" && path ? path : "/",
+      expires: expiry > 0 ? expiry : undefined,
+      httpOnly: httpOnly === true,
+      secure: secure === true,
+      sameSite: normalizeSameSite(sameSite),
+    };
+  });
+}
+
+function normalizeSameSite(value: unknown): AuthCookie["sameSite"] {
+  switch (String(value ?? "").toLowerCase()) {
+    case "strict":
+      return "Strict";
+    case "lax":
+      return "Lax";
+    case "none":
+    case "no_restriction":
+      return "None";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Validate an auth profile from a request and fold its cookie jar into
+ * `cookies`. Returns null when the profile is missing or has nothing in it.
+ */
+export function resolveAuthProfile(input: unknown): AuthProfile | null {
+  if (input === undefined || input === null) {
+    return null;
+  }
+  const { cookieJar, ...profile } = authProfileInputSchema.parse(input);
+  if (cookieJar) {
+    profile.cookies = [...profile.cookies, ...parseCookieJar(cookieJar)];
+  }
+
+  const empty = Object.keys(profile.headers).length === 0
+    && profile.cookies.length === 0
+    && !profile.basicAuth
+    && profile.loginSteps.length === 0;
+  return empty ? null : profile;
+}
+
+export function summarizeAuthProfile(profile: AuthProfile): AuthProfileSummary {
+  return {
+    headerNames: Object.keys(profile.headers),
+    cookieCount: profile.cookies.length,
+    basicAuthUser: profile.basicAuth?.username ?? null,
+    loginSteps: profile.loginSteps.length,
+  };
+}
+
+// Encrypt a profile for storage; only the summary stays readable
+export function sealAuthProfile(profile: AuthProfile): StoredAuthProfile {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(profile), "utf-8"), cipher.final()]);
+  return {
+    summary: summarizeAuthProfile(profile),
+    sealed: Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64"),
+  };
+}
+
+export function openAuthProfile(stored: StoredAuthProfile | null | undefined): AuthProfile | null {
+  if (!stored?.sealed) {
+    return null;
+  }
+  const raw = Buffer.from(stored.sealed, "base64");
+  try {
+    const decipher = createDecipheriv(CIPHER, key, raw.subarray(0, IV_BYTES));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    const json = Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString("utf-8");
+    return JSON.parse(json);
+  } catch (error) {
+    throw new Error("The project's auth profile can't be decrypted; AUTH_PROFILE_KEY may have changed");
+  }
+}
+
+// A project as the API returns it: the auth profile reduced to its summary
+export function redactProject(project: Project): Project {
+  return project.authProfile ? { ...project, authProfile: { summary: project.authProfile.summary } } : project;
+}
+
+function domainMatches(hostname: string, cookieDomain: string): boolean {
+  if (!cookieDomain.startsWith(".")) {
+    return hostname === cookieDomain;
+  }
+  const bare = cookieDomain.slice(1);
+  return hostname === bare || hostname.endsWith(cookieDomain);
+}
+
+function pathMatches(pathname: string, cookiePath: string): boolean {
+  return pathname === cookiePath
+    || pathname.startsWith(cookiePath) && (cookiePath.endsWith("/") || pathname[cookiePath.length] === "/");
+}
+
+/**
+ * A project's credentials for one clone run. Custom headers and basic auth
+ * go only to the site's own host, so they don't leak to CDNs and other
+ * third parties; cookies follow their own domain, path and secure rules.
+ * Cookies picked up by the login steps are added to the jar.
+ */
+export class RequestAuth {
+  private jar: AuthCookie[];
+  private host: string;
+
+  constructor(private profile: AuthProfile, siteUrl: string) {
+    this.jar = [...profile.cookies];
+    this.host = new URL(siteUrl).host;
+  }
+
+  get loginSteps(): LoginStep[] {
+    return this.profile.loginSteps;
+  }
+
+  get cookies(): AuthCookie[] {
+    return [...this.jar];
+  }
+
+  // Names of the profile's custom headers, which hold secrets like API keys
+  get headerNames(): string[] {
+    return Object.keys(this.profile.headers);
+  }
+
+  // Cookies from the login replace ones with the same name, domain and path
+  addCookies(cookies: AuthCookie[]): void {
+    const key = (cookie: AuthCookie) => `${cookie.name}\t${cookie.domain}\t${cookie.path}`;
+    const replaced = new Set(cookies.map(key));
+    this.jar = [...this.jar.filter((cookie) => !replaced.has(key(cookie))), ...cookies];
+  }
+
+  // Custom headers and basic auth for requests to the site's host
+  siteHeaders(url: string): Record<string, string> {
+    if (new URL(url).host !== this.host) {
+      return {};
+    }
+    const headers = { ...this.profile.headers };
+    const { basicAuth } = this.profile;
+    if (basicAuth) {
+      headers["Authorization"] = `Basic ${Buffer.from(`${basicAuth.username}:${basicAuth.password}`).toString("base64")}`;
+    }
+    return headers;
+  }
+
+  cookieHeader(url: string): string | null {
+    const { protocol, hostname, pathname } = new URL(url);
+    const now = Date.now() / 1000;
+    const cookies = this.jar.filter((cookie) =>
+      domainMatches(hostname, cookie.domain) &&
+      pathMatches(pathname, cookie.path) &&
+      (!cookie.secure || protocol === "https:") &&
+      (cookie.expires === undefined || cookie.expires > now)
+    );
+    return cookies.length > 0 ? cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ") : null;
+  }
+
+  // Everything a plain request to `url` should carry
+  headersFor(url: string): Record<string, string> {
+    const cookie = this.cookieHeader(url);
+    return { ...(cookie ? { Cookie: cookie } : {}), ...this.siteHeaders(url) };
+  }
+}
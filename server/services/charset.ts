@@ -0,0 +1,132 @@
+import type { CheerioAPI } from "cheerio";
+
+// How far into an HTML document a <meta charset> is looked for, as browsers do
+const META_PRESCAN_BYTES = 1024;
+
+export interface DecodedText {
+  text: string;
+  encoding: string; // WHATWG name of the encoding the text was decoded from, e.g. "shift_jis"
+}
+
+/**
+ * WHATWG name for an encoding label ("latin1", "x-sjis", "cp1251"...), or
+ * null when the label is unknown. Lookup goes through TextDecoder, so every
+ * encoding it knows can be decoded.
+ */
+export function normalizeEncoding(label: string | null | undefined): string | null {
+  if (!label) {
+    return null;
+  }
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch (error) {
+    return null;
+  }
+}
+
+export function charsetFromContentType(contentType: string | null | undefined): string | null {
+  const match = contentType?.match(/;\s*charset\s*=\s*(?:"([^"]*)"|([^;\s]*))/i);
+  return normalizeEncoding(match ? match[1] ?? match[2] : null);
+}
+
+function encodingFromBom(body: Buffer): string | null {
+  if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (body[0] === 0xfe && body[1] === 0xff) {
+    return "utf-16be";
+  }
+  if (body[0] === 0xff && body[1] === 0xfe) {
+    return "utf-16le";
+  }
+  return null;
+}
+
+// A document can't declare itself UTF-16 from inside: if the declaration is readable as ASCII, it isn't
+function fromDeclaration(label: string | null | undefined): string | null {
+  const encoding = normalizeEncoding(label);
+  if (encoding === "utf-16le" || encoding === "utf-16be") {
+    return "utf-8";
+  }
+  return encoding === "x-user-defined" ? "windows-1252" : encoding;
+}
+
+function encodingFromMeta(body: Buffer): string | null {
+  const head = body.subarray(0, META_PRESCAN_BYTES).toString("latin1").replace(/<!--[\s\S]*?(-->|$)/g, "");
+  for (const [tag] of Array.from(head.matchAll(/<meta\b[^>]*>/gi))) {
+    const attributes = new Map<string, string>();
+    for (const [, name, value] of Array.from(tag.matchAll(/\s([^\s=/>]+)\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/g))) {
+      attributes.set(name.toLowerCase(), value.replace(/^["']|["']$/g, ""));
+    }
+
+    // <meta charset="x">, or <meta http-equiv="Content-Type" content="text/html; charset=x">
+    const label = attributes.get("charset")
+      ?? (attributes.get("http-equiv")?.toLowerCase() === "content-type"
+        ? attributes.get("content")?.match(/charset\s*=\s*["']?([^"'\s;]+)/i)?.[1]
+        : undefined);
+    const encoding = fromDeclaration(label);
+    if (encoding) {
+      return encoding;
+    }
+  }
+  return null;
+}
+
+function decode(body: Buffer, encoding: string): string {
+  return new TextDecoder(encoding).decode(body);
+}
+
+/**
+ * Decode an HTML response the way a browser picks its encoding: byte order
+ * mark, then the Content-Type charset, then a <meta> declaration near the
+ * top. Undeclared documents are read as UTF-8 when they are valid UTF-8 and
+ * as windows-1252 otherwise.
+ */
+export function decodeHtml(body: Buffer, contentType: string | null): DecodedText {
+  const declared = encodingFromBom(body) ?? charsetFromContentType(contentType) ?? encodingFromMeta(body);
+  if (declared) {
+    return { text: decode(body, declared), encoding: declared };
+  }
+
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(body), encoding: "utf-8" };
+  } catch (error) {
+    return { text: decode(body, "windows-1252"), encoding: "windows-1252" };
+  }
+}
+
+/**
+ * Decode a stylesheet following CSS Syntax: byte order mark, then the
+ * Content-Type charset, then an `@charset` rule at the very start, then the
+ * encoding of whatever referenced it (the page or importing stylesheet).
+ */
+export function decodeCss(body: Buffer, contentType: string | null, referrerEncoding: string = "utf-8"): DecodedText {
+  const rule = body.subarray(0, 1024).toString("latin1").match(/^@charset "([^"]*)";/);
+  const encoding = encodingFromBom(body)
+    ?? charsetFromContentType(contentType)
+    ?? fromDeclaration(rule?.[1])
+    ?? normalizeEncoding(referrerEncoding)
+    ?? "utf-8";
+  return { text: decode(body, encoding), encoding };
+}
+
+/**
+ * Clones are written as UTF-8, so declarations of the original encoding have
+ * to go. An `@charset` rule is rewritten in place.
+ */
+export function declareCssUtf8(css: string): string {
+  return css.replace(/^@charset "[^"]*";/, '@charset "UTF-8";');
+}
+
+/**
+ * Replace every charset declaration in a page with a single
+ * `<meta charset="utf-8">` at the top of <head>, so the saved copy opens
+ * correctly from disk where there is no Content-Type header.
+ */
+export function declareHtmlUtf8($: CheerioAPI): void {
+  $("meta[charset]").remove();
+  $("meta[http-equiv]")
+    .filter((_, el) => ($(el).attr("http-equiv") ?? "").toLowerCase() === "content-type")
+    .remove();
+  $("head").first().prepend('<meta charset="utf-8">');
+}
@@ -1,28 +1,241 @@
-import { playwrightService } from "./playwright";
+import { playwrightService, type CapturedResponse, type RenderedResource } from "./playwright";
 import { fileManager } from "./fileManager";
 import { storage } from "../storage";
+import { CrawlFrontier, MAX_CRAWL_PAGES, type CrawlEntry } from "./crawler";
+import { CrawlScope } from "./crawlRules";
+import { RobotsTxt } from "./robots";
+import { HostThrottle } from "./hostThrottle";
+import { sitemapService } from "./sitemap";
+import { CloneSignal, type CloneStopReason } from "./cloneSignal";
+import { Stylesheet } from "./cssParser";
+import { detachNavigationScope, manifestImages } from "./webManifest";
+import { ModuleScript, isUrlSpecifier } from "./jsModules";
+import { PathMapper } from "./pathMapper";
+import { decodeCss, decodeHtml, declareCssUtf8, declareHtmlUtf8 } from "./charset";
+import { detachDocumentBase, documentBase } from "./documentBase";
+import { urlGuard } from "./urlGuard";
+import { HarArchive, HarRecorder } from "./har";
+import { RequestAuth, openAuthProfile } from "./authProfile";
+import { ResourceFetcher, FetchError, readBody, type FetchedResource } from "./resourceFetcher";
+import { DownloadScheduler, DownloadCancelledError, DOWNLOAD_PRIORITY, type DownloadPriority } from "./downloadScheduler";
+import {
+  SRCSET_ATTRIBUTES,
+  parseSrcset,
+  serializeSrcset,
+  selectCandidates,
+  type ImageCandidate,
+} from "./responsiveImages";
+import {
+  crawlPolitenessSchema,
+  assetOptionsSchema,
+  renderOptionsSchema,
+  type CrawlRules,
+  type CrawlPoliteness,
+  type AssetOptions,
+  type RenderOptions,
+  type AuthProfile,
+  type CloneCheckpoint,
+  type SkippedUrl,
+  type Resource,
+  type InsertResource,
+  type ResourceReference,
+} from "@shared/schema";
 import { URL } from "url";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
 import * as cheerio from "cheerio";
 
+// An estimate gives up on the site after this long, or on a page this large, and falls back to defaults
+const ESTIMATE_TIMEOUT_MS = 15000;
+const ESTIMATE_MAX_HTML_BYTES = 10 * 1024 * 1024;
+
 interface CloneProgressCallback {
   (progress: number, step: string, currentFile?: string): void;
 }
 
+export interface CloneOptions {
+  crawlRules?: CrawlRules | null;
+  politeness?: Partial<CrawlPoliteness> | null;
+  assetOptions?: Partial<AssetOptions> | null;
+  renderOptions?: Partial<RenderOptions> | null;
+  authProfile?: AuthProfile | null;
+  checkpoint?: CloneCheckpoint | null; // resume from a paused run
+}
+
+// Reports progress for a single page; the caller decides how it maps onto the overall bar
+interface PageProgressReporter {
+  (progress: number, step: string, currentFile?: string): Promise<void>;
+}
+
+type ResourceKind = "css" | "manifest" | "font" | "icon" | "js" | "image" | "media" | "other";
+
+// Kinds saved as-is; stylesheets and manifests are rewritten before they're saved
+type AssetKind = Exclude<ResourceKind, "css" | "manifest">;
+
+// Where each kind of resource is stored and how its file is typed
+const RESOURCE_STORAGE: Record<AssetKind, { folder: string; type: "font" | "image" | "js" | "media" | "other" }> = {
+  font: { folder: "fonts", type: "font" },
+  icon: { folder: "icons", type: "image" },
+  js: { folder: "js", type: "js" },
+  image: { folder: "images", type: "image" },
+  media: { folder: "media", type: "media" },
+  other: { folder: "css", type: "other" },
+};
+
+function downloadDetails(resource: FetchedResource, localPath: string): Partial<InsertResource> {
+  return {
+    status: "downloaded",
+    httpStatus: resource.status,
+    error: null,
+    attempts: resource.attempts,
+    localPath,
+  };
+}
+
+function failureDetails(error: unknown): Partial<InsertResource> {
+  return {
+    status: "failed",
+    httpStatus: error instanceof FetchError ? error.status : null,
+    error: error instanceof Error ? error.message : "Unknown error",
+    attempts: error instanceof FetchError ? error.attempts : 0,
+  };
+}
+
+function groupReferences(references: ResourceReference[]): Map<string, string[]> {
+  const byFile = new Map<string, string[]>();
+  for (const { file, ref } of references) {
+    byFile.set(file, [...(byFile.get(file) ?? []), ref]);
+  }
+  return byFile;
+}
+
+// Download all URLs (including absolute http/https URLs) except data URIs
+// and fragments pointing into the document, like SVG filter: url(#blur)
+function isRemoteReference(ref: string): boolean {
+  return ref !== "" && !ref.startsWith("data:") && !ref.startsWith("#");
+}
+
+// Path from `file` to `localPath`, both project-relative, as written in a reference
+function relativeReference(file: string, localPath: string): string {
+  const relative = path.posix.relative(path.posix.dirname(file), localPath);
+  return relative.startsWith("../") ? relative : `./${relative}`;
+}
+
+// Guess the kind of a url() or new URL() asset from its file extension
+function kindFromExtension(ref: string, baseUrl: string): AssetKind {
+  const ext = path.posix.extname(new URL(ref, baseUrl).pathname).slice(1).toLowerCase();
+
+  if (['woff', 'woff2', 'ttf', 'otf', 'eot'].includes(ext || '')) {
+    return 'font';
+  } else if (['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'avif', 'ico'].includes(ext || '')) {
+    return 'image';
+  }
+  return 'other';
+}
+
+// Point every @import, url() and image-set() reference to one of `refs` at `target`
+function replaceCssReferences(css: string, refs: string[], target: string): string {
+  const sheet = new Stylesheet(css);
+  for (const reference of [...sheet.imports, ...sheet.urls]) {
+    if (refs.includes(reference.url)) {
+      reference.rewrite(target);
+    }
+  }
+  for (const imageSet of sheet.imageSets) {
+    if (imageSet.candidates.some((candidate) => refs.includes(candidate.url))) {
+      imageSet.rewrite(imageSet.candidates.map((candidate) =>
+        refs.includes(candidate.url) ? { ...candidate, url: target } : candidate));
+    }
+  }
+  return sheet.toString();
+}
+
+// <meta> tiles Windows pins to the start menu; names are matched lowercased
+const MSAPPLICATION_TILES = new Set([
+  "msapplication-tileimage",
+  "msapplication-square70x70logo",
+  "msapplication-square150x150logo",
+  "msapplication-wide310x150logo",
+  "msapplication-square310x310logo",
+]);
+
+// Point every module specifier, new URL() and source map reference to one of `refs` at `target`
+function replaceScriptReferences(source: string, refs: string[], target: string): string {
+  const script = new ModuleScript(source);
+  for (const reference of script.references) {
+    if (refs.includes(reference.specifier)) {
+      reference.rewrite(target);
+    }
+  }
+  return script.toString();
+}
+
+// Point every icon and screenshot `src` in a manifest that matches one of `refs` at `target`
+function replaceManifestReferences(json: string, refs: string[], target: string): string {
+  const manifest = JSON.parse(json);
+  for (const { image } of manifestImages(manifest)) {
+    if (refs.includes(image.src)) {
+      image.src = target;
+    }
+  }
+  return JSON.stringify(manifest, null, 2);
+}
+
+// Persisted resource row plus the references collected for it so far
+interface ResourceLogEntry {
+  id: Promise<string>;
+  references: ResourceReference[];
+}
+
+// State shared by every page cloned in one run, so assets used on
+// several pages are only downloaded and stored once
+interface CloneSession {
+  projectId: string;
+  paths: PathMapper; // absolute URL -> project-relative path it is saved under
+  resourcePaths: Map<string, string>; // absolute URL -> path, once downloaded
+  pendingDownloads: Map<string, Promise<string>>; // absolute URL -> download in flight
+  resourceLog: Map<string, ResourceLogEntry>; // absolute URL -> resources row
+  responseCache: Map<string, CapturedResponse>; // Playwright mode: bodies the browser received, used instead of fetching
+  cssVisited: Set<string>;
+  scriptPaths: Map<string, Promise<string>>; // scripts whose module graph is being or has been walked -> path, once fetched
+  cssUrlToLocalPath: Map<string, string>;
+  totalResources: number;
+  downloadedCount: number;
+  failedCount: number;
+  errors: string[];
+  throttle: HostThrottle;
+  fetcher: ResourceFetcher;
+  robots: RobotsTxt | null;
+  skipped: SkippedUrl[];
+  signal: CloneSignal;
+  downloads: DownloadScheduler;
+  assets: AssetOptions;
+  render: RenderOptions;
+  har: HarRecorder | null; // recording the run's traffic when the project keeps a HAR
+  replay: HarArchive | null; // replay mode: the only source of responses
+  auth: RequestAuth | null;
+}
+
 export class CloneService {
-  private async extractLinks(html: string, baseUrl: string): Promise<string[]> {
+  // Stop signals for clones currently running in this process
+  private signals = new Map<string, CloneSignal>();
+
+  private async extractLinks(html: string, pageUrl: string, scope: CrawlScope): Promise<string[]> {
     const $ = cheerio.load(html);
     const links = new Set<string>();
-    const urlObj = new URL(baseUrl);
+    const urlObj = new URL(pageUrl);
     const baseDomain = urlObj.hostname;
+    const baseUrl = documentBase($, pageUrl);
 
     $('a[href]').each((_, el) => {
       const href = $(el).attr('href');
       if (href && !href.startsWith('#') && !href.startsWith('mailto:') && !href.startsWith('tel:')) {
         try {
           const absoluteUrl = new URL(href, baseUrl);
-          // Only include same-domain links
-          if (absoluteUrl.hostname === baseDomain && absoluteUrl.pathname !== urlObj.pathname) {
-            links.add(absoluteUrl.href);
+          // Only include same-domain links that pass the project's crawl rules
+          if (absoluteUrl.hostname === baseDomain && absoluteUrl.pathname !== urlObj.pathname && scope.accepts(absoluteUrl.href)) {
+            links.add(scope.normalize(absoluteUrl.href));
           }
         } catch (error) {
           // Invalid URL, skip
@@ -33,754 +246,1562 @@ export class CloneService {
     return Array.from(links);
   }
 
+  private async isPaused(projectId: string): Promise<boolean> {
+    const project = await storage.getProject(projectId);
+    if (project?.isPaused === 1) {
+      await storage.updateProjectStatus(projectId, "paused");
+      return true;
+    }
+    return false;
+  }
+
+  private createSession(
+    projectId: string,
+    siteUrl: string,
+    politeness: CrawlPoliteness,
+    assets: AssetOptions,
+    render: RenderOptions,
+    auth: RequestAuth | null,
+    signal: CloneSignal
+  ): CloneSession {
+    const throttle = new HostThrottle(politeness.minDelayMs, politeness.maxConcurrency);
+    const headersFor = auth ? (url: string) => auth.headersFor(url) : undefined;
+    return {
+      projectId,
+      paths: new PathMapper(new URL(siteUrl).origin),
+      resourcePaths: new Map(),
+      pendingDownloads: new Map(),
+      resourceLog: new Map(),
+      responseCache: new Map(),
+      cssVisited: new Set(),
+      scriptPaths: new Map(),
+      cssUrlToLocalPath: new Map(),
+      totalResources: 0,
+      downloadedCount: 0,
+      failedCount: 0,
+      errors: [],
+      throttle,
+      fetcher: new ResourceFetcher(politeness, throttle, signal.abortSignal, headersFor),
+      robots: null,
+      skipped: [],
+      signal,
+      downloads: new DownloadScheduler(politeness.maxTotalConcurrency, politeness.maxConcurrency, signal),
+      assets,
+      render,
+      har: null,
+      replay: null,
+      auth,
+    };
+  }
+
+  /**
+   * Reuse the resource log of an earlier run: downloaded resources are not
+   * fetched again and rows are updated instead of duplicated.
+   */
+  private seedSession(session: CloneSession, resources: Resource[]): void {
+    for (const resource of resources) {
+      session.resourceLog.set(resource.url, {
+        id: Promise.resolve(resource.id),
+        references: [...(resource.references ?? [])],
+      });
+      if (resource.status === "downloaded" && resource.localPath) {
+        session.paths.reserve(resource.url, resource.localPath);
+        session.resourcePaths.set(resource.url, resource.localPath);
+        if (resource.kind === "css") {
+          session.cssVisited.add(resource.url);
+          session.cssUrlToLocalPath.set(resource.url, resource.localPath);
+        } else if (resource.kind === "js") {
+          session.scriptPaths.set(resource.url, Promise.resolve(resource.localPath));
+        }
+      }
+    }
+  }
+
+  private sessionStats(session: CloneSession): NonNullable<CloneCheckpoint["stats"]> {
+    return {
+      totalResources: session.totalResources,
+      downloadedCount: session.downloadedCount,
+      failedCount: session.failedCount,
+    };
+  }
+
+  /**
+   * Record a stopped clone. A paused clone saves where it stopped (`frontier`
+   * is null when the root page itself wasn't finished yet); a cancelled one
+   * drops its checkpoint.
+   */
+  private async saveCheckpoint(
+    session: CloneSession,
+    frontier: CrawlFrontier | null,
+    pagesProcessed: number,
+    stats: NonNullable<CloneCheckpoint["stats"]>
+  ): Promise<void> {
+    await this.markStopped(session.projectId, session.signal.reason, {
+      frontier: frontier?.snapshot(),
+      pagesProcessed,
+      stats: frontier ? stats : undefined,
+      skipped: [...session.skipped],
+    });
+  }
+
+  private async markStopped(projectId: string, reason: CloneStopReason | null, checkpoint: CloneCheckpoint): Promise<void> {
+    if (reason === "cancelled") {
+      await storage.updateProjectStatus(projectId, "cancelled", {
+        checkpoint: null,
+        isPaused: 0,
+        currentStep: "Clone cancelled",
+      });
+      return;
+    }
+
+    await storage.updateProjectStatus(projectId, "paused", {
+      checkpoint,
+      skippedUrls: checkpoint.skipped ?? [],
+      filesProcessed: checkpoint.stats?.downloadedCount ?? 0,
+      pagesProcessed: checkpoint.pagesProcessed ?? 0,
+    });
+  }
+
+  isCloneRunning(projectId: string): boolean {
+    return this.signals.has(projectId);
+  }
+
+  /**
+   * Ask a running clone to stop at the next download. Returns false if no
+   * clone is running for the project.
+   */
+  pauseClone(projectId: string): boolean {
+    const signal = this.signals.get(projectId);
+    signal?.stop("paused");
+    return signal !== undefined;
+  }
+
+  /**
+   * Stop a running clone immediately, aborting requests and renders in
+   * flight. Returns false if no clone is running for the project.
+   */
+  cancelClone(projectId: string): boolean {
+    const signal = this.signals.get(projectId);
+    signal?.stop("cancelled");
+    return signal !== undefined;
+  }
+
   async cloneWebsite(
     projectId: string,
     url: string,
     onProgress?: CloneProgressCallback,
-    method: "static" | "playwright" = "playwright",
-    crawlDepth: number = 0
+    method: "static" | "playwright" | "replay" = "playwright",
+    crawlDepth: number = 0,
+    options: CloneOptions = {}
   ): Promise<void> {
+    const signal = new CloneSignal();
+    this.signals.set(projectId, signal);
+    // What a stop that surfaces as an error saves; once the root page is written it saves the crawl
+    let saveStopped = () => this.markStopped(projectId, signal.reason, options.checkpoint ?? {});
+
     try {
       let html: string;
-      let initialResources: string[] = [];
-      const startTime = Date.now();
+      let encoding: string; // the page's, for stylesheets that don't declare their own
+      let rendered: RenderedResource[] = [];
+      const scope = new CrawlScope(options.crawlRules);
 
       // Check if paused
-      const project = await storage.getProject(projectId);
-      if (project?.isPaused === 1) {
-        await storage.updateProjectStatus(projectId, "paused");
+      if (await this.isPaused(projectId)) {
         return;
       }
 
-      if (method === "static") {
-        // Static method: Fast, no JavaScript execution
-        onProgress?.(10, "Fetching page (static mode)");
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Fetching page (static mode)",
-          progressPercentage: 10,
-        });
+      const politeness = crawlPolitenessSchema.parse(options.politeness ?? {});
+      const assets = assetOptionsSchema.parse(options.assetOptions ?? {});
+      const render = renderOptionsSchema.parse(options.renderOptions ?? {});
+      // Replays never reach the site, so they have nothing to sign in to
+      const auth = options.authProfile && method !== "replay" ? new RequestAuth(options.authProfile, url) : null;
+      const session = this.createSession(projectId, url, politeness, assets, render, auth, signal);
+      // The start page is always index.html; crawled pages get their names from the same map as assets
+      session.paths.reserve(scope.normalize(url), "index.html");
+      const checkpoint = options.checkpoint ?? null;
+      let pagesProcessed = checkpoint?.pagesProcessed ?? 0;
+
+      // Resuming: everything already downloaded is reused instead of fetched again
+      if (checkpoint) {
+        this.seedSession(session, await storage.getResourcesByProject(projectId));
+        for (const page of await storage.getPagesByProject(projectId)) {
+          session.paths.reserve(page.url, page.path);
+        }
+        session.skipped = [...(checkpoint.skipped ?? [])];
+        if (checkpoint.stats) {
+          session.totalResources = checkpoint.stats.totalResources;
+          session.downloadedCount = checkpoint.stats.downloadedCount;
+          session.failedCount = checkpoint.stats.failedCount;
+        }
+      }
 
-        const response = await fetch(url);
-        html = await response.text();
+      // Counters as of the last finished page, saved if the clone is paused mid-page
+      let committed = this.sessionStats(session);
 
-        onProgress?.(20, "Analyzing resources");
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Analyzing resources",
-          progressPercentage: 20,
-        });
-      } else {
-        // Playwright method: Slower, executes JavaScript
-        onProgress?.(2, "Initializing browser");
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Initializing browser",
-          progressPercentage: 2,
-        });
+      if (method === "replay") {
+        session.replay = await HarArchive.load(fileManager.getHarPath(projectId));
+      } else if (method === "playwright" && render.recordHar) {
+        // A resumed clone adds to the archive its earlier run recorded
+        session.har = await HarRecorder.open(fileManager.getHarPath(projectId), auth?.headerNames);
+      }
 
-        // Pre-initialize browser to speed up
-        await playwrightService.initialize();
+      if (auth?.loginSteps.length) {
+        onProgress?.(1, "Signing in");
+        await storage.updateProjectStatus(projectId, "processing", { currentStep: "Signing in" });
+        await this.signIn(session, url);
+      }
 
-        onProgress?.(5, "Loading page with JavaScript");
+      if (politeness.respectRobotsTxt) {
+        onProgress?.(1, "Reading robots.txt");
+        session.robots = await session.throttle.schedule(url, () => RobotsTxt.fetch(url, this.plainFetch(session)));
+        if (session.robots.crawlDelay !== null) {
+          session.throttle.setMinDelay(new URL(url).host, session.robots.crawlDelay * 1000);
+        }
+        if (!session.robots.isAllowed(url)) {
+          throw new Error(`${url} is disallowed by robots.txt`);
+        }
+      }
+
+      let frontier: CrawlFrontier;
+      if (checkpoint?.frontier) {
+        // The root page was saved before the pause; continue with the queued pages
+        frontier = CrawlFrontier.restore(checkpoint.frontier, crawlDepth, scope);
+        const restored = frontier;
+        saveStopped = () => this.saveCheckpoint(session, restored, pagesProcessed, committed);
+        onProgress?.(88, `Resuming crawl (${frontier.pending} pages queued)`);
         await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Loading page with JavaScript",
-          progressPercentage: 5,
+          currentStep: `Resuming crawl (${frontier.pending} pages queued)`,
+          progressPercentage: 88,
         });
+      } else {
+        if (method === "static") {
+          // Static method: Fast, no JavaScript execution
+          onProgress?.(10, "Fetching page (static mode)");
+          await storage.updateProjectStatus(projectId, "processing", {
+            currentStep: "Fetching page (static mode)",
+            progressPercentage: 10,
+          });
 
-        const result = await playwrightService.renderPage(url, (progress) => {
-          const currentProgress = 5 + Math.floor(progress * 10);
-          onProgress?.(currentProgress, "Rendering page...");
-          storage.updateProjectStatus(projectId, "processing", {
-            currentStep: "Rendering page...",
-            progressPercentage: currentProgress,
+          const page = await session.fetcher.fetch(url);
+          ({ text: html, encoding } = decodeHtml(page.body, page.contentType));
+
+          onProgress?.(20, "Analyzing resources");
+          await storage.updateProjectStatus(projectId, "processing", {
+            currentStep: "Analyzing resources",
+            progressPercentage: 20,
+          });
+        } else {
+          // Playwright method: Slower, executes JavaScript
+          onProgress?.(2, "Initializing browser");
+          await storage.updateProjectStatus(projectId, "processing", {
+            currentStep: "Initializing browser",
+            progressPercentage: 2,
           });
-        });
-        html = result.html;
-        initialResources = result.resources;
 
-        onProgress?.(15, "Page rendered successfully");
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Page rendered successfully",
-          progressPercentage: 15,
-        });
-      }
+          // Pre-initialize browser to speed up
+          await playwrightService.initialize();
 
-      // Parse HTML with Cheerio
-      const $ = cheerio.load(html);
+          onProgress?.(5, "Loading page with JavaScript");
+          await storage.updateProjectStatus(projectId, "processing", {
+            currentStep: "Loading page with JavaScript",
+            progressPercentage: 5,
+          });
 
-      const urlObj = new URL(url);
-      const baseUrl = `${urlObj.protocol}//${urlObj.host}`;
+          const result = await this.renderPage(session, url, (progress) => {
+            const currentProgress = 5 + Math.floor(progress * 10);
+            onProgress?.(currentProgress, "Rendering page...");
+            storage.updateProjectStatus(projectId, "processing", {
+              currentStep: "Rendering page...",
+              progressPercentage: currentProgress,
+            });
+          });
+          html = result.html;
+          encoding = result.encoding;
+          rendered = result.resources;
 
-      // Collect all resources to download
-      const cssLinks = new Set<string>();
-      $('link[rel="stylesheet"]').each((_, el) => {
-        const href = $(el).attr("href");
-        if (href) {
-          cssLinks.add(href);
+          onProgress?.(15, "Page rendered successfully");
+          await storage.updateProjectStatus(projectId, "processing", {
+            currentStep: "Page rendered successfully",
+            progressPercentage: 15,
+          });
         }
-      });
 
-      // Collect fonts
-      const fontLinks = new Set<string>();
-      $('link[rel*="font"], link[type*="font"]').each((_, el) => {
-        const href = $(el).attr("href");
-        if (href) {
-          fontLinks.add(href);
+        const baseProgress = method === "static" ? 20 : 15;
+        const updatedHtml = await this.processPage(session, url, "index.html", html, encoding, rendered, baseProgress, async (progress, step, currentFile) => {
+          onProgress?.(progress, step, currentFile);
+          await storage.updateProjectStatus(projectId, "processing", {
+            currentStep: step,
+            progressPercentage: progress,
+            filesProcessed: session.downloadedCount,
+          });
+        });
+        if (updatedHtml === null) {
+          await this.saveCheckpoint(session, null, 0, committed);
+          return;
         }
-      });
+        await session.har?.save();
+
+        // The crawl starts with the root page done, so a stop from here on doesn't clone it again
+        frontier = new CrawlFrontier(crawlDepth, scope);
+        frontier.markVisited(url);
+        const rootFrontier = frontier;
+        committed = this.sessionStats(session);
+        saveStopped = () => this.saveCheckpoint(session, rootFrontier, pagesProcessed, committed);
+
+        // Save main HTML file
+        await fileManager.saveFile(projectId, "index.html", updatedHtml);
+        await storage.upsertFile({
+          projectId,
+          path: "index.html",
+          content: updatedHtml,
+          type: "html",
+          size: updatedHtml.length,
+        });
 
-      // Collect favicons and icons
-      const icons = new Set<string>();
-      $('link[rel="icon"], link[rel="shortcut icon"], link[rel="apple-touch-icon"], link[rel="apple-touch-icon-precomposed"]').each((_, el) => {
-        const href = $(el).attr("href");
-        if (href && !href.startsWith("data:")) {
-          icons.add(href);
-        }
-      });
+        await storage.upsertPage({
+          projectId,
+          url: scope.normalize(url),
+          path: "index.html",
+          depth: 0,
+          parentUrl: null,
+        });
 
-      const jsScripts = new Set<string>();
-      $("script[src]").each((_, el) => {
-        const src = $(el).attr("src");
-        if (src) {
-          jsScripts.add(src);
-        }
-      });
+        // Crawl sub-pages breadth-first, one level at a time, up to crawlDepth
+        if (crawlDepth > 0) {
+          onProgress?.(88, "Discovering sub-pages");
+          await storage.updateProjectStatus(projectId, "processing", {
+            currentStep: "Discovering sub-pages",
+            progressPercentage: 88,
+          });
 
-      const images = new Set<string>();
-      $("img[src]").each((_, el) => {
-        const src = $(el).attr("src");
-        if (src && !src.startsWith("data:")) {
-          images.add(src);
-        }
-      });
+          for (const link of await this.extractLinks(html, url, scope)) {
+            frontier.add(link, 1, url);
+          }
+
+          // Sitemap entries are treated like links found on the root page
+          if (options.crawlRules?.useSitemap) {
+            onProgress?.(89, "Reading sitemap.xml");
+            const plainFetch = this.plainFetch(session);
+            const throttledFetch = (target: string) => session.throttle.schedule(target, () => plainFetch(target));
+            const robots = session.robots ?? await RobotsTxt.fetch(url, throttledFetch);
+            const sitemap = await sitemapService.discoverUrls(url, {
+              sitemapUrls: robots.sitemaps,
+              fetchImpl: throttledFetch,
+            });
 
-      // Collect background images from inline styles
-      $("[style*='background']").each((_, el) => {
-        const style = $(el).attr("style");
-        if (style) {
-          const urlMatches = style.match(/url\(['"]?([^'")\s]+)['"]?\)/g);
-          if (urlMatches) {
-            urlMatches.forEach(match => {
-              const url = match.replace(/url\(['"]?([^'")\s]+)['"]?\)/, '$1');
-              if (url && !url.startsWith("data:")) {
-                images.add(url);
+            const hostname = new URL(url).hostname;
+            let seeded = 0;
+            for (const pageUrl of sitemap.urls) {
+              if (new URL(pageUrl).hostname === hostname && frontier.add(pageUrl, 1, sitemap.sitemaps[0] ?? url)) {
+                seeded++;
               }
+            }
+
+            await storage.updateProjectStatus(projectId, "processing", {
+              currentStep: `Found ${sitemap.urls.length} URLs in sitemap (${seeded} queued)`,
+              progressPercentage: 89,
             });
           }
         }
-      });
-
-      const totalResources = cssLinks.size + jsScripts.size + images.size + fontLinks.size + icons.size;
-      let downloadedCount = 0;
-      let failedCount = 0;
-      const errors: string[] = [];
-
-      // Clear CSS visited set and path mapping for this clone session
-      this.cssVisited.clear();
-      this.cssUrlToLocalPath.clear();
-
-      // Calculate progress ranges
-      const baseProgress = method === "playwright" ? 15 : 20;
-      
-      // Download fonts
-      if (fontLinks.size > 0) {
-        onProgress?.(baseProgress, "Downloading fonts");
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Downloading fonts",
-          progressPercentage: baseProgress,
-        });
       }
 
-      for (const href of Array.from(fontLinks)) {
-        const project = await storage.getProject(projectId);
-        if (project?.isPaused === 1) {
-          await storage.updateProjectStatus(projectId, "paused");
+      let entry: CrawlEntry | undefined;
+      while ((entry = frontier.next())) {
+        if (signal.stopped) {
+          frontier.requeue(entry);
+          await this.saveCheckpoint(session, frontier, pagesProcessed, committed);
           return;
         }
 
-        try {
-          const absoluteUrl = new URL(href, url).href;
-          const content = await this.fetchResource(absoluteUrl);
-          const localPath = fileManager.getLocalPath(href, url);
-
-          await fileManager.saveFile(projectId, `fonts/${localPath}`, content);
-          await storage.createFile({
-            projectId,
-            path: `fonts/${localPath}`,
-            content: "",
-            type: "font",
-            size: content.length,
+        const total = pagesProcessed + frontier.pending + 1;
+        const subProgress = 90 + Math.floor((pagesProcessed / total) * 8);
+
+        if (session.robots && !session.robots.isAllowed(entry.url)) {
+          session.skipped.push({ url: entry.url, reason: "Disallowed by robots.txt" });
+          onProgress?.(subProgress, "Skipped page disallowed by robots.txt", entry.url);
+          await storage.updateProjectStatus(projectId, "processing", {
+            currentStep: `Skipped ${entry.url} (disallowed by robots.txt)`,
+            skippedUrls: [...session.skipped],
           });
+          continue;
+        }
 
-          $(`link[href="${href}"]`).attr("href", `./fonts/${localPath}`);
+        const step = `Cloning sub-page ${pagesProcessed + 1}/${total} (depth ${entry.depth})`;
+        onProgress?.(subProgress, step, entry.url);
 
-          downloadedCount++;
-          const progressPercentage = Math.floor(baseProgress + (downloadedCount / totalResources) * 5);
-          onProgress?.(progressPercentage, "Downloading fonts", localPath);
-          await storage.updateProjectStatus(projectId, "processing", {
-            currentStep: "Downloading fonts",
-            progressPercentage,
-            filesProcessed: downloadedCount,
+        try {
+          const page = await this.clonePage(session, entry, method, async (_progress, pageStep, currentFile) => {
+            onProgress?.(subProgress, `${step}: ${pageStep}`, currentFile);
           });
+          if (page === null) {
+            frontier.requeue(entry);
+            await this.saveCheckpoint(session, frontier, pagesProcessed, committed);
+            return;
+          }
+
+          if (frontier.canExpand(entry)) {
+            for (const link of await this.extractLinks(page.html, entry.url, scope)) {
+              frontier.add(link, entry.depth + 1, entry.url);
+            }
+          }
         } catch (error) {
-          failedCount++;
-          const errorMsg = `Font: ${href} - ${error instanceof Error ? error.message : 'Unknown error'}`;
-          errors.push(errorMsg);
-          console.error(`Failed to download font: ${href}`, error);
+          if (signal.stopped) {
+            frontier.requeue(entry);
+            await this.saveCheckpoint(session, frontier, pagesProcessed, committed);
+            return;
+          }
+          console.error(`Failed to clone sub-page: ${entry.url}`, error);
         }
-      }
 
-      // Download icons
-      const iconProgress = baseProgress + 5;
-      if (icons.size > 0) {
-        onProgress?.(iconProgress, "Downloading icons");
+        pagesProcessed++;
+        committed = this.sessionStats(session);
+        await session.har?.save();
         await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Downloading icons",
-          progressPercentage: iconProgress,
+          currentStep: step,
+          progressPercentage: subProgress,
+          filesProcessed: session.downloadedCount,
+          pagesProcessed,
         });
       }
 
-      for (const href of Array.from(icons)) {
-        const project = await storage.getProject(projectId);
-        if (project?.isPaused === 1) {
-          await storage.updateProjectStatus(projectId, "paused");
-          return;
-        }
+      // Point links between cloned pages at their local copies, and the rest at the original site
+      onProgress?.(98, "Rewriting page links");
+      await storage.updateProjectStatus(projectId, "processing", {
+        currentStep: "Rewriting page links",
+        progressPercentage: 98,
+      });
+      await this.rewritePageLinks(projectId, scope);
 
-        try {
-          const absoluteUrl = new URL(href, url).href;
-          const content = await this.fetchResource(absoluteUrl);
-          const localPath = fileManager.getLocalPath(href, url);
-
-          await fileManager.saveFile(projectId, `icons/${localPath}`, content);
-          await storage.createFile({
-            projectId,
-            path: `icons/${localPath}`,
-            content: "",
-            type: "image",
-            size: content.length,
-          });
+      // Get all files for final count
+      const allFiles = await storage.getFilesByProject(projectId);
+      const totalSize = allFiles.reduce((sum, file) => sum + (file.size || 0), 0);
 
-          $(`link[href="${href}"]`).attr("href", `./icons/${localPath}`);
+      const { totalResources, downloadedCount, failedCount, errors } = session;
+      const successRate = totalResources > 0
+        ? Math.round((downloadedCount / totalResources) * 100)
+        : 100;
 
-          downloadedCount++;
-          const progressPercentage = Math.floor(baseProgress + 5 + (downloadedCount / totalResources) * 5);
-          onProgress?.(progressPercentage, "Downloading icons", localPath);
-          await storage.updateProjectStatus(projectId, "processing", {
-            currentStep: "Downloading icons",
-            progressPercentage,
-            filesProcessed: downloadedCount,
-          });
-        } catch (error) {
-          failedCount++;
-          const errorMsg = `Icon: ${href} - ${error instanceof Error ? error.message : 'Unknown error'}`;
-          errors.push(errorMsg);
-          console.error(`Failed to download icon: ${href}`, error);
-        }
+      let completionMessage = `Clone complete - ${downloadedCount}/${totalResources} resources downloaded (${successRate}%)`;
+      if (failedCount > 0) {
+        completionMessage += ` - ${failedCount} resources failed but clone completed successfully`;
+        console.warn(`Clone completed with ${failedCount} errors:`, errors.slice(0, 10));
       }
-      
-      // Download CSS files
-      const cssProgress = baseProgress + 10;
-      if (cssLinks.size > 0) {
-        onProgress?.(cssProgress, "Downloading CSS files");
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Downloading CSS files",
-          progressPercentage: cssProgress,
-        });
+      if (session.skipped.length > 0) {
+        completionMessage += ` - ${session.skipped.length} pages skipped by robots.txt`;
       }
-      
-      for (const href of Array.from(cssLinks)) {
-        // Check if paused before each file
-        const project = await storage.getProject(projectId);
-        if (project?.isPaused === 1) {
-          await storage.updateProjectStatus(projectId, "paused");
-          return;
-        }
 
-        try {
-          const absoluteUrl = new URL(href, url).href;
-          const content = await this.fetchResource(absoluteUrl);
-          const localPath = fileManager.getLocalPath(href, url);
-
-          const failedCountObj = { count: 0 };
-          const processedCSS = await this.processCSS(
-            projectId,
-            content.toString(),
-            absoluteUrl,
-            localPath,
-            url,
-            failedCountObj,
-            errors
-          );
-          failedCount += failedCountObj.count;
-
-          // Only save if processedCSS is not empty (not already saved by earlier processing)
-          if (processedCSS) {
-            await fileManager.saveFile(projectId, `css/${localPath}`, Buffer.from(processedCSS));
-            await storage.createFile({
-              projectId,
-              path: `css/${localPath}`,
-              content: processedCSS,
-              type: "css",
-              size: processedCSS.length,
-            });
-          }
+      await storage.updateProjectStatus(projectId, "complete", {
+        totalFiles: allFiles.length,
+        totalSize,
+        skippedUrls: session.skipped,
+        checkpoint: null,
+        currentStep: completionMessage,
+        progressPercentage: 100,
+      });
 
-          // Update link in HTML
-          $(`link[href="${href}"]`).attr("href", `./css/${localPath}`);
+      onProgress?.(100, completionMessage);
+    } catch (error) {
+      // Aborted requests surface as errors; they aren't failures of the clone
+      if (signal.stopped) {
+        await saveStopped();
+        return;
+      }
 
-          downloadedCount++;
-          const progressPercentage = Math.floor(cssProgress + (downloadedCount / totalResources) * 15);
-          onProgress?.(progressPercentage, "Downloading CSS files", localPath);
-          await storage.updateProjectStatus(projectId, "processing", {
-            currentStep: "Downloading CSS files",
-            progressPercentage,
-            filesProcessed: downloadedCount,
-          });
-        } catch (error) {
-          failedCount++;
-          const errorMsg = `CSS: ${href} - ${error instanceof Error ? error.message : 'Unknown error'}`;
-          errors.push(errorMsg);
-          console.error(`Failed to download CSS: ${href}`, error);
-        }
+      await storage.updateProjectStatus(projectId, "error", {
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+      });
+      throw error;
+    } finally {
+      this.signals.delete(projectId);
+    }
+  }
+
+  /**
+   * Discover, download and rewrite every asset referenced by a page.
+   * Returns the rewritten HTML, or null if the project was paused midway.
+   */
+  private async processPage(
+    session: CloneSession,
+    url: string,
+    pageFile: string,
+    html: string,
+    encoding: string,
+    rendered: RenderedResource[], // subresources the browser loaded, in Playwright mode
+    baseProgress: number,
+    report: PageProgressReporter
+  ): Promise<string | null> {
+    const { projectId } = session;
+
+    // Parse HTML with Cheerio
+    const $ = cheerio.load(html);
+    // References resolve against <base href>, which the clone can't keep
+    const baseUrl = detachDocumentBase($, url);
+
+    // Collect all resources to download
+    const cssLinks = new Set<string>();
+    $('link[rel="stylesheet"]').each((_, el) => {
+      const href = $(el).attr("href");
+      if (href) {
+        cssLinks.add(href);
       }
+    });
 
-      // Download JavaScript files
-      const jsProgress = cssProgress + 15;
-      if (jsScripts.size > 0) {
-        onProgress?.(jsProgress, "Downloading JavaScript files");
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Downloading JavaScript files",
-          progressPercentage: jsProgress,
-        });
+    // Collect fonts
+    const fontLinks = new Set<string>();
+    $('link[rel*="font"], link[type*="font"]').each((_, el) => {
+      const href = $(el).attr("href");
+      if (href) {
+        fontLinks.add(href);
       }
+    });
 
-      for (const src of Array.from(jsScripts)) {
-        // Check if paused before each file
-        const project = await storage.getProject(projectId);
-        if (project?.isPaused === 1) {
-          await storage.updateProjectStatus(projectId, "paused");
-          return;
+    // Collect favicons and icons, including Safari pinned tab masks and Windows tiles
+    const icons = new Set<string>();
+    $('link[rel="icon"], link[rel="shortcut icon"], link[rel="apple-touch-icon"], link[rel="apple-touch-icon-precomposed"], link[rel="mask-icon"]').each((_, el) => {
+      const href = $(el).attr("href");
+      if (href && !href.startsWith("data:")) {
+        icons.add(href);
+      }
+    });
+    $("meta[name][content]").each((_, el) => {
+      const content = $(el).attr("content");
+      if (content && !content.startsWith("data:") && MSAPPLICATION_TILES.has($(el).attr("name")!.toLowerCase())) {
+        icons.add(content);
+      }
+    });
+
+    const manifests = new Set<string>();
+    $('link[rel~="manifest"][href]').each((_, el) => {
+      manifests.add($(el).attr("href")!);
+    });
+
+    const jsScripts = new Set<string>();
+    // Whether each script the HTML references is a module; scripts only the browser saw are told apart by their source
+    const scriptIsModule = new Map<string, boolean>();
+    $("script[src]").each((_, el) => {
+      const src = $(el).attr("src");
+      if (src) {
+        jsScripts.add(src);
+        scriptIsModule.set(src, ($(el).attr("type") ?? "").trim().toLowerCase() === "module");
+      }
+    });
+
+    const images = new Set<string>();
+    const addImage = (src: string | undefined) => {
+      if (src && !src.startsWith("data:")) {
+        images.add(src);
+      }
+    };
+    $("img[src], img[data-src]").each((_, el) => {
+      addImage($(el).attr("src"));
+      addImage($(el).attr("data-src"));
+    });
+    $("video[poster]").each((_, el) => {
+      addImage($(el).attr("poster"));
+    });
+
+    // Collect the srcset candidates we keep from <img>, <picture><source> and image preloads
+    $('img, picture > source, link[rel~="preload"][as="image"]').each((_, el) => {
+      for (const attr of SRCSET_ATTRIBUTES) {
+        const srcset = $(el).attr(attr);
+        if (srcset) {
+          selectCandidates(parseSrcset(srcset), session.assets).forEach((candidate) => addImage(candidate.url));
         }
+      }
+    });
 
-        try {
-          const absoluteUrl = new URL(src, url).href;
-          const content = await this.fetchResource(absoluteUrl);
-          const localPath = fileManager.getLocalPath(src, url);
-
-          await fileManager.saveFile(projectId, `js/${localPath}`, content);
-          await storage.createFile({
-            projectId,
-            path: `js/${localPath}`,
-            content: content.toString(),
-            type: "js",
-            size: content.length,
-          });
+    // Collect video, audio and subtitle tracks; <picture> sources are handled with srcset above
+    const media = new Set<string>();
+    $("video[src], audio[src], video > source[src], audio > source[src], track[src]").each((_, el) => {
+      const src = $(el).attr("src");
+      if (src && !src.startsWith("data:") && !src.startsWith("blob:")) {
+        media.add(src);
+      }
+    });
 
-          // Update script src in HTML
-          $(`script[src="${src}"]`).attr("src", `./js/${localPath}`);
+    // Preloaded assets are saved like the ones the page uses directly, so the
+    // clone doesn't request files it doesn't have
+    $('link[rel~="preload"][href], link[rel~="modulepreload"][href]').each((_, el) => {
+      const href = $(el).attr("href")!;
+      if (href.startsWith("data:")) {
+        return;
+      }
+      const rel = ($(el).attr("rel") ?? "").toLowerCase().split(/\s+/);
+      const as = ($(el).attr("as") ?? "").toLowerCase();
+      if (rel.includes("modulepreload") || as === "script") {
+        jsScripts.add(href);
+        scriptIsModule.set(href, rel.includes("modulepreload"));
+      } else if (as === "style") {
+        cssLinks.add(href);
+      } else if (as === "font") {
+        fontLinks.add(href);
+      } else if (as === "image") {
+        images.add(href);
+      } else if (as === "video" || as === "audio" || as === "track") {
+        media.add(href);
+      }
+    });
 
-          downloadedCount++;
-          const progressPercentage = Math.floor(jsProgress + (downloadedCount / totalResources) * 20);
-          onProgress?.(progressPercentage, "Downloading JavaScript files", localPath);
-          await storage.updateProjectStatus(projectId, "processing", {
-            currentStep: "Downloading JavaScript files",
-            progressPercentage,
-            filesProcessed: downloadedCount,
-          });
+    // Assets the browser loaded that the HTML doesn't reference (added by scripts,
+    // or while scrolling and clicking after load) are saved as well
+    const renderedSets: Record<string, Set<string>> = {
+      stylesheet: cssLinks,
+      script: jsScripts,
+      image: images,
+      font: fontLinks,
+      media,
+    };
+    const referenced = new Set<string>();
+    for (const set of [cssLinks, fontLinks, icons, manifests, jsScripts, images, media]) {
+      set.forEach((ref) => {
+        try {
+          const absoluteUrl = new URL(ref, baseUrl);
+          absoluteUrl.hash = ""; // requests never carry the fragment
+          referenced.add(absoluteUrl.href);
         } catch (error) {
-          failedCount++;
-          const errorMsg = `JavaScript: ${src} - ${error instanceof Error ? error.message : 'Unknown error'}`;
-          errors.push(errorMsg);
-          console.error(`Failed to download JS: ${src}`, error);
+          // Invalid URL, reported when it is downloaded
         }
+      });
+    }
+    for (const resource of rendered) {
+      if (/^https?:/i.test(resource.url) && !referenced.has(resource.url) && renderedSets[resource.type]) {
+        referenced.add(resource.url);
+        renderedSets[resource.type].add(resource.url);
       }
+    }
 
-      // Download images
-      const imgProgress = jsProgress + 20;
-      if (images.size > 0) {
-        onProgress?.(imgProgress, "Downloading images");
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Downloading images",
-          progressPercentage: imgProgress,
+    const totalResources = cssLinks.size + jsScripts.size + images.size + fontLinks.size + icons.size + media.size + manifests.size;
+    session.totalResources += totalResources;
+    let pageDownloaded = 0;
+
+    const recordFailure = (label: string, ref: string, error: unknown) => {
+      session.failedCount++;
+      session.errors.push(`${label}: ${ref} - ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`Failed to download ${label}: ${ref}`, error);
+    };
+
+    // Queue every resource up front and let the scheduler pick the order,
+    // rewriting the HTML as each download lands
+    const downloads: Promise<void>[] = [];
+    const enqueue = (
+      label: string,
+      kind: ResourceKind,
+      step: string,
+      ref: string,
+      priority: DownloadPriority,
+      download: () => Promise<string>,
+      rewrite: (localPath: string) => void
+    ) => {
+      let absoluteUrl: string;
+      try {
+        absoluteUrl = new URL(ref, baseUrl).href;
+      } catch (error) {
+        recordFailure(label, ref, error);
+        return;
+      }
+
+      const reference = { file: pageFile, ref };
+      downloads.push(
+        session.downloads.schedule(absoluteUrl, priority, download)
+          .then(
+            async (localPath) => {
+              rewrite(localPath);
+              session.downloadedCount++;
+              pageDownloaded++;
+              await this.recordResource(session, absoluteUrl, kind, {}, reference);
+              await report(Math.floor(baseProgress + (pageDownloaded / totalResources) * 70), step, localPath);
+            },
+            async (error) => {
+              if (!(error instanceof DownloadCancelledError) && !session.signal.stopped) {
+                recordFailure(label, ref, error);
+                await this.recordResource(session, absoluteUrl, kind, failureDetails(error), reference);
+              }
+            }
+          )
+          // The file was saved; what failed is rewriting or reporting it, not the download
+          .catch((error) => console.error(`Failed to update ${url} for ${ref}`, error))
+      );
+    };
+
+    // Point the elements matching `selector` whose `attr` is exactly `ref` at `localPath`.
+    // Compared as values, not in the selector, so quotes and brackets in URLs can't break it
+    const retarget = (selector: string, attr: string, ref: string, localPath: string) => {
+      $(selector)
+        .filter((_, el) => $(el).attr(attr) === ref)
+        .attr(attr, `./${localPath}`);
+    };
+
+    if (totalResources > 0) {
+      await report(baseProgress, "Downloading resources");
+    }
+
+    for (const href of Array.from(cssLinks)) {
+      enqueue("CSS", "css", "Downloading CSS files", href, DOWNLOAD_PRIORITY.css,
+        () => this.downloadStylesheet(session, href, baseUrl, encoding),
+        (localPath) => retarget("link[href]", "href", href, localPath));
+    }
+
+    for (const href of Array.from(fontLinks)) {
+      enqueue("Font", "font", "Downloading fonts", href, DOWNLOAD_PRIORITY.font,
+        () => this.downloadResource(session, href, baseUrl, "font"),
+        (localPath) => retarget("link[href]", "href", href, localPath));
+    }
+
+    for (const href of Array.from(icons)) {
+      enqueue("Icon", "icon", "Downloading icons", href, DOWNLOAD_PRIORITY.icon,
+        () => this.downloadResource(session, href, baseUrl, "icon"),
+        (localPath) => {
+          retarget("link[href]", "href", href, localPath);
+          retarget("meta[content]", "content", href, localPath);
+        });
+    }
+
+    for (const href of Array.from(manifests)) {
+      enqueue("Manifest", "manifest", "Downloading web app manifest", href, DOWNLOAD_PRIORITY.manifest,
+        () => this.downloadManifest(session, href, baseUrl),
+        (localPath) => retarget("link[href]", "href", href, localPath));
+    }
+
+    for (const src of Array.from(jsScripts)) {
+      enqueue("JavaScript", "js", "Downloading JavaScript files", src, DOWNLOAD_PRIORITY.js,
+        () => this.downloadScript(session, src, baseUrl, scriptIsModule.get(src)),
+        (localPath) => {
+          retarget("script[src]", "src", src, localPath);
+          retarget("link[href]", "href", src, localPath);
         });
+    }
+
+    for (const src of Array.from(images)) {
+      enqueue("Image", "image", "Downloading images", src, DOWNLOAD_PRIORITY.image,
+        () => this.downloadResource(session, src, baseUrl, "image"),
+        (localPath) => {
+          retarget("img[src]", "src", src, localPath);
+          retarget("img[data-src]", "data-src", src, localPath);
+          retarget("video[poster]", "poster", src, localPath);
+          retarget("link[href]", "href", src, localPath);
+        });
+    }
+
+    for (const src of Array.from(media)) {
+      enqueue("Media", "media", "Downloading video and audio", src, DOWNLOAD_PRIORITY.media,
+        () => this.downloadResource(session, src, baseUrl, "media"),
+        (localPath) => {
+          retarget("video[src], audio[src], source[src], track[src]", "src", src, localPath);
+          retarget("link[href]", "href", src, localPath);
+        });
+    }
+
+    // <style> blocks and style attributes go through the same resolver as
+    // stylesheets, with their assets rewritten relative to this page
+    const resolveInline = (css: string, apply: (resolved: string) => void) => {
+      downloads.push(
+        this.resolveCSS(session, css, baseUrl, pageFile, encoding)
+          .then(apply)
+          .catch((error) => console.error(`Failed to process inline CSS on ${url}`, error))
+      );
+    };
+    $("style").each((_, el) => {
+      const css = $(el).text();
+      if (css.trim()) {
+        resolveInline(css, (resolved) => $(el).text(resolved));
       }
+    });
+    $("[style]").each((_, el) => {
+      const style = $(el).attr("style");
+      if (style && /url\(|image-set\(/i.test(style)) {
+        resolveInline(style, (resolved) => $(el).attr("style", resolved));
+      }
+    });
 
-      for (const src of Array.from(images)) {
-        // Check if paused before each file
-        const project = await storage.getProject(projectId);
-        if (project?.isPaused === 1) {
-          await storage.updateProjectStatus(projectId, "paused");
-          return;
-        }
+    // Inline modules import relative to the page
+    $('script[type="module"]:not([src])').each((_, el) => {
+      const source = $(el).text();
+      if (source.trim()) {
+        downloads.push(
+          this.resolveScript(session, source, baseUrl, pageFile, true)
+            .then((resolved) => {
+              $(el).text(resolved);
+            })
+            .catch((error) => console.error(`Failed to process inline module on ${url}`, error))
+        );
+      }
+    });
 
-        try {
-          const absoluteUrl = new URL(src, url).href;
-          const content = await this.fetchResource(absoluteUrl);
-          const localPath = fileManager.getLocalPath(src, url);
-
-          await fileManager.saveFile(projectId, `images/${localPath}`, content);
-          await storage.createFile({
-            projectId,
-            path: `images/${localPath}`,
-            content: "",
-            type: "image",
-            size: content.length,
-          });
+    await Promise.all(downloads);
+    if (session.signal.stopped) {
+      return null;
+    }
 
-          // Update img src in HTML
-          $(`img[src="${src}"]`).attr("src", `./images/${localPath}`);
+    // Keep only the selected candidates, pointing the downloaded ones at their local copies
+    await report(86, "Rewriting responsive images");
 
-          downloadedCount++;
-          const progressPercentage = Math.floor(imgProgress + (downloadedCount / totalResources) * 25);
-          onProgress?.(progressPercentage, "Downloading images", localPath);
-          await storage.updateProjectStatus(projectId, "processing", {
-            currentStep: "Downloading images",
-            progressPercentage,
-            filesProcessed: downloadedCount,
-          });
-        } catch (error) {
-          failedCount++;
-          const errorMsg = `Image: ${src} - ${error instanceof Error ? error.message : 'Unknown error'}`;
-          errors.push(errorMsg);
-          console.error(`Failed to download image: ${src}`, error);
+    $('img, picture > source, link[rel~="preload"][as="image"]').each((_, el) => {
+      for (const attr of SRCSET_ATTRIBUTES) {
+        const srcset = $(el).attr(attr);
+        if (srcset) {
+          const candidates = selectCandidates(parseSrcset(srcset), session.assets)
+            .map((candidate) => this.localizeCandidate(session, candidate, baseUrl, "./"));
+          $(el).attr(attr, serializeSrcset(candidates));
         }
       }
+    });
 
-      // Rewrite inline style background-image URLs
-      onProgress?.(88, "Rewriting inline styles");
-      await storage.updateProjectStatus(projectId, "processing", {
-        currentStep: "Rewriting inline styles",
-        progressPercentage: 88,
+    await report(90, "Finalizing HTML");
+    declareHtmlUtf8($);
+    return $.html();
+  }
+
+  /**
+   * Fetch a binary asset once per clone session and save it in the folder
+   * for its kind. Returns the project-relative path of the stored file.
+   */
+  private downloadResource(
+    session: CloneSession,
+    ref: string,
+    baseUrl: string,
+    kind: AssetKind
+  ): Promise<string> {
+    const absoluteUrl = new URL(ref, baseUrl).href;
+    const { folder, type } = RESOURCE_STORAGE[kind];
+
+    return this.downloadOnce(session, absoluteUrl, async () => {
+      // Video and audio have their own size cap so one hero video can't swell the clone
+      const resource = kind === "media"
+        ? await this.fetchResource(session, absoluteUrl, session.assets.maxMediaBytes)
+        : await this.fetchResource(session, absoluteUrl);
+      const localPath = session.paths.assign(absoluteUrl, folder, resource.contentType);
+      const isText = type === "js" || /\.(vtt|srt)$/i.test(localPath); // scripts and subtitle tracks
+
+      await fileManager.saveFile(session.projectId, localPath, resource.body);
+      await storage.upsertFile({
+        projectId: session.projectId,
+        path: localPath,
+        content: isText ? resource.body.toString() : "",
+        type,
+        size: resource.body.length,
       });
 
-      $("[style*='background']").each((_, el) => {
-        const style = $(el).attr("style");
-        if (style) {
-          let updatedStyle = style;
-          const urlMatches = style.match(/url\(['"]?([^'")\s]+)['"]?\)/g);
-          if (urlMatches) {
-            urlMatches.forEach(match => {
-              const originalUrl = match.replace(/url\(['"]?([^'")\s]+)['"]?\)/, '$1');
-              if (originalUrl && !originalUrl.startsWith("data:")) {
-                try {
-                  const absoluteUrl = new URL(originalUrl, url).href;
-                  const localPath = fileManager.getLocalPath(originalUrl, url);
-                  const newUrl = `./images/${localPath}`;
-                  updatedStyle = updatedStyle.replace(
-                    new RegExp(originalUrl.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'),
-                    newUrl
-                  );
-                } catch (error) {
-                  console.error(`Failed to rewrite inline style URL: ${originalUrl}`, error);
-                }
-              }
-            });
-          }
-          $(el).attr("style", updatedStyle);
+      await this.recordResource(session, absoluteUrl, kind, downloadDetails(resource, localPath));
+      return localPath;
+    });
+  }
+
+  private downloadStylesheet(session: CloneSession, href: string, pageUrl: string, pageEncoding?: string): Promise<string> {
+    const absoluteUrl = new URL(href, pageUrl).href;
+    return this.downloadOnce(session, absoluteUrl, async () => {
+      const resource = await this.fetchResource(session, absoluteUrl);
+      const cssLocalPath = session.paths.assign(absoluteUrl, "css", resource.contentType);
+
+      const { text, encoding } = decodeCss(resource.body, resource.contentType, pageEncoding);
+      const processedCSS = await this.processCSS(session, text, absoluteUrl, cssLocalPath, encoding);
+
+      // Only save if processedCSS is not empty (not already saved by earlier processing)
+      if (processedCSS) {
+        await fileManager.saveFile(session.projectId, cssLocalPath, Buffer.from(processedCSS));
+        await storage.upsertFile({
+          projectId: session.projectId,
+          path: cssLocalPath,
+          content: processedCSS,
+          type: "css",
+          size: processedCSS.length,
+        });
+      }
+
+      await this.recordResource(session, absoluteUrl, "css", downloadDetails(resource, cssLocalPath));
+      return cssLocalPath;
+    });
+  }
+
+  /**
+   * Fetch a web app manifest, download the icons and screenshots it lists and
+   * save it with those pointing at the local copies, and without the
+   * `start_url` and `scope` that tie it to the original site. A manifest
+   * that isn't valid JSON is saved unchanged.
+   */
+  private downloadManifest(session: CloneSession, href: string, pageUrl: string): Promise<string> {
+    const absoluteUrl = new URL(href, pageUrl).href;
+    return this.downloadOnce(session, absoluteUrl, async () => {
+      const resource = await this.fetchResource(session, absoluteUrl);
+      const localPath = session.paths.assign(absoluteUrl, "manifest", resource.contentType);
+      let content = resource.body.toString();
+
+      let manifest: unknown = null;
+      try {
+        manifest = JSON.parse(content);
+      } catch (error) {
+        console.warn(`Manifest is not valid JSON: ${absoluteUrl}`);
+      }
+
+      const images = manifestImages(manifest).filter(({ image }) => isRemoteReference(image.src));
+      for (const { image, screenshot } of images) {
+        const ref = image.src;
+        const kind = screenshot ? "image" : "icon";
+        const imagePath = await this.downloadReferenced(session, "Manifest image", { file: localPath, ref }, absoluteUrl, kind,
+          () => this.downloadResource(session, ref, absoluteUrl, kind));
+        if (imagePath) {
+          image.src = path.posix.relative(path.posix.dirname(localPath), imagePath);
         }
-      });
+      }
+      const detached = detachNavigationScope(manifest);
+      if (images.length > 0 || detached) {
+        content = JSON.stringify(manifest, null, 2);
+      }
 
-      // Rewrite all absolute URLs to relative
-      onProgress?.(90, "Finalizing HTML");
-      await storage.updateProjectStatus(projectId, "processing", {
-        currentStep: "Finalizing HTML",
-        progressPercentage: 90,
+      await fileManager.saveFile(session.projectId, localPath, Buffer.from(content));
+      await storage.upsertFile({
+        projectId: session.projectId,
+        path: localPath,
+        content,
+        type: "json",
+        size: Buffer.byteLength(content),
       });
-      const updatedHtml = $.html();
-
-      // Save main HTML file
-      await fileManager.saveFile(projectId, "index.html", updatedHtml);
-      await storage.createFile({
-        projectId,
-        path: "index.html",
-        content: updatedHtml,
-        type: "html",
-        size: updatedHtml.length,
+
+      await this.recordResource(session, absoluteUrl, "manifest", downloadDetails(resource, localPath));
+      return localPath;
+    });
+  }
+
+  /**
+   * Fetch a script once per clone session and save it under js/, after
+   * downloading what it references (see resolveScript). `module` says
+   * whether it is loaded as an ES module; left out, the script's own source
+   * decides.
+   */
+  private downloadScript(session: CloneSession, ref: string, baseUrl: string, module?: boolean): Promise<string> {
+    const absoluteUrl = new URL(ref, baseUrl).href;
+    return this.downloadOnce(session, absoluteUrl, async () => {
+      // The path depends on the response, but modules further down an import
+      // cycle need it before this script's own imports are done
+      const fetched = this.fetchResource(session, absoluteUrl).then((resource) => ({
+        resource,
+        localPath: session.paths.assign(absoluteUrl, RESOURCE_STORAGE.js.folder, resource.contentType),
+      }));
+      const pendingPath = fetched.then(({ localPath }) => localPath);
+      pendingPath.catch(() => {}); // a failed fetch is reported by whoever downloads the script
+      session.scriptPaths.set(absoluteUrl, pendingPath);
+
+      const { resource, localPath } = await fetched;
+      const source = resource.body.toString();
+      const content = await this.resolveScript(session, source, absoluteUrl, localPath, module ?? new ModuleScript(source).isModule);
+
+      await fileManager.saveFile(session.projectId, localPath, Buffer.from(content));
+      await storage.upsertFile({
+        projectId: session.projectId,
+        path: localPath,
+        content,
+        type: "js",
+        size: Buffer.byteLength(content),
       });
 
-      // Crawl sub-pages if depth > 0
-      if (crawlDepth > 0) {
-        onProgress?.(88, "Discovering sub-pages");
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: "Discovering sub-pages",
-          progressPercentage: 88,
-        });
+      await this.recordResource(session, absoluteUrl, "js", downloadDetails(resource, localPath));
+      return localPath;
+    });
+  }
 
-        const subLinks = await this.extractLinks(html, url);
-        const limitedLinks = subLinks.slice(0, Math.min(10, subLinks.length)); // Limit to 10 sub-pages
+  /**
+   * Download what a script references and rewrite those references relative
+   * to `file`: the script's own file, or the HTML page for an inline module.
+   * For a module that is the module graph below it (static and dynamic
+   * imports with a literal specifier), its `new URL()` assets and, if
+   * enabled, its source map; a classic script only has its `new URL()`
+   * assets and source map handled. Bare specifiers resolved through an
+   * import map are left alone.
+   */
+  private async resolveScript(session: CloneSession, source: string, baseUrl: string, file: string, module: boolean): Promise<string> {
+    const script = new ModuleScript(source);
+    const downloads: Promise<void>[] = [];
+
+    for (const reference of script.references) {
+      const { type, specifier } = reference;
+      const isImport = type === "import" || type === "dynamic-import";
+      if (isImport && !module) {
+        continue;
+      }
+      if (isImport ? !isUrlSpecifier(specifier) : !isRemoteReference(specifier)) {
+        continue;
+      }
+      if (type === "source-map" && !session.assets.sourceMaps) {
+        continue;
+      }
 
-        onProgress?.(90, `Found ${limitedLinks.length} sub-pages to clone`);
-        await storage.updateProjectStatus(projectId, "processing", {
-          currentStep: `Found ${limitedLinks.length} sub-pages to clone`,
-          progressPercentage: 90,
-        });
+      let absoluteUrl: string;
+      try {
+        absoluteUrl = new URL(specifier, baseUrl).href;
+      } catch (error) {
+        continue;
+      }
+
+      // Workers and worklets a module loads through new URL() are modules too
+      const isModule = isImport || (module && type === "url" && /\.m?js$/i.test(new URL(absoluteUrl).pathname));
+      const walked = isModule ? session.scriptPaths.get(absoluteUrl) : undefined;
+      if (walked) {
+        // Already being walked higher up an import cycle, or by another page;
+        // waiting for its whole graph could deadlock, so only wait for its path
+        downloads.push(walked.then((localPath) => reference.rewrite(relativeReference(file, localPath)), () => {}));
+        continue;
+      }
+
+      const kind: AssetKind = isModule || type === "source-map" ? "js" : kindFromExtension(specifier, baseUrl);
+      downloads.push(
+        this.downloadReferenced(session, "JavaScript import", { file, ref: specifier }, baseUrl, kind,
+          () => (isModule ? this.downloadScript(session, specifier, baseUrl, true) : this.downloadResource(session, specifier, baseUrl, kind)))
+          .then((localPath) => {
+            if (localPath) {
+              reference.rewrite(relativeReference(file, localPath));
+            }
+          })
+      );
+    }
+
+    await Promise.all(downloads);
+    return script.toString();
+  }
+
+  /**
+   * Download a resource referenced from another downloaded file (stylesheet,
+   * script or manifest) and count it in the session totals. Returns null if
+   * it failed; the failure is logged and recorded against `reference`.
+   */
+  private async downloadReferenced(
+    session: CloneSession,
+    label: string,
+    reference: ResourceReference,
+    baseUrl: string,
+    kind: ResourceKind,
+    download: () => Promise<string>
+  ): Promise<string | null> {
+    let absoluteUrl: string | null = null;
+    session.totalResources++;
+    try {
+      absoluteUrl = new URL(reference.ref, baseUrl).href;
+      const localPath = await download();
+      session.downloadedCount++;
+      await this.recordResource(session, absoluteUrl, kind, {}, reference);
+      return localPath;
+    } catch (error) {
+      // Requests aborted by a pause or cancel aren't failures
+      if (session.signal.stopped) {
+        return null;
+      }
+      session.failedCount++;
+      session.errors.push(`${label}: ${reference.ref} - ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`Failed to download ${label}: ${reference.ref}`, error);
+      if (absoluteUrl) {
+        await this.recordResource(session, absoluteUrl, kind, failureDetails(error), reference);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Point a srcset or image-set() candidate at its downloaded copy, with
+   * `prefix` leading from the referencing file to the project root. Candidates
+   * that weren't downloaded keep their original URL.
+   */
+  private localizeCandidate(session: CloneSession, candidate: ImageCandidate, baseUrl: string, prefix: string): ImageCandidate {
+    try {
+      const localPath = session.resourcePaths.get(new URL(candidate.url, baseUrl).href);
+      return localPath ? { ...candidate, url: `${prefix}${localPath}` } : candidate;
+    } catch (error) {
+      return candidate;
+    }
+  }
+
+  /**
+   * Run `download` at most once per URL per session. Concurrent callers for
+   * a URL that is still downloading share the same promise.
+   */
+  private downloadOnce(session: CloneSession, absoluteUrl: string, download: () => Promise<string>): Promise<string> {
+    const existing = session.resourcePaths.get(absoluteUrl);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    let pending = session.pendingDownloads.get(absoluteUrl);
+    if (!pending) {
+      pending = download()
+        .then((localPath) => {
+          session.resourcePaths.set(absoluteUrl, localPath);
+          return localPath;
+        })
+        .finally(() => session.pendingDownloads.delete(absoluteUrl));
+      session.pendingDownloads.set(absoluteUrl, pending);
+    }
+    return pending;
+  }
+
+  private async clonePage(
+    session: CloneSession,
+    entry: CrawlEntry,
+    method: "static" | "playwright" | "replay",
+    report: PageProgressReporter
+  ): Promise<{ html: string; path: string } | null> {
+    const { projectId } = session;
+    let html: string;
+    let encoding: string;
+    let rendered: RenderedResource[] = [];
+
+    if (method === "static") {
+      const page = await session.fetcher.fetch(entry.url);
+      ({ text: html, encoding } = decodeHtml(page.body, page.contentType));
+    } else {
+      const result = await this.renderPage(session, entry.url);
+      html = result.html;
+      encoding = result.encoding;
+      rendered = result.resources;
+    }
+
+    // Pages live next to index.html so the ./css, ./js, ... prefixes resolve the same way
+    const htmlFileName = session.paths.assignPage(entry.url);
+
+    const updatedHtml = await this.processPage(session, entry.url, htmlFileName, html, encoding, rendered, 0, report);
+    if (updatedHtml === null) {
+      return null;
+    }
+    await fileManager.saveFile(projectId, htmlFileName, updatedHtml);
+    await storage.upsertFile({
+      projectId,
+      path: htmlFileName,
+      content: updatedHtml,
+      type: "html",
+      size: updatedHtml.length,
+    });
+    await storage.upsertPage({
+      projectId,
+      url: entry.url,
+      path: htmlFileName,
+      depth: entry.depth,
+      parentUrl: entry.parentUrl,
+    });
 
-        for (let i = 0; i < limitedLinks.length; i++) {
-          const subLink = limitedLinks[i];
-          const project = await storage.getProject(projectId);
-          if (project?.isPaused === 1) {
-            await storage.updateProjectStatus(projectId, "paused");
+    return { html, path: htmlFileName };
+  }
+
+  /**
+   * Rewrite anchors that point at another cloned page so navigation stays
+   * inside the clone. Links to other pages become absolute URLs on the
+   * original site.
+   */
+  private async rewritePageLinks(projectId: string, scope: CrawlScope): Promise<void> {
+    const pages = await storage.getPagesByProject(projectId);
+    const pathByUrl = new Map(pages.map((page) => [page.url, page.path]));
+    // Links this pass already wrote, e.g. before a resume
+    const localLinks = new Set(pages.map((page) => `./${page.path}`));
+    const files = await storage.getFilesByProject(projectId);
+
+    for (const page of pages) {
+      try {
+        const html = await fileManager.readFile(projectId, page.path);
+        const $ = cheerio.load(html);
+        let changed = false;
+
+        $("a[href]").each((_, el) => {
+          const href = $(el).attr("href");
+          if (!href || href.startsWith("#") || localLinks.has(href.split("#")[0])) {
             return;
           }
 
           try {
-            const subProgress = 90 + Math.floor((i / limitedLinks.length) * 8);
-            onProgress?.(subProgress, `Cloning sub-page ${i + 1}/${limitedLinks.length}`);
-            await this.cloneSinglePage(projectId, subLink, method, onProgress);
-            
-            await storage.updateProjectStatus(projectId, "processing", {
-              currentStep: `Cloning sub-page ${i + 1}/${limitedLinks.length}`,
-              progressPercentage: subProgress,
-              pagesProcessed: i + 1,
-            });
+            const target = new URL(href, page.url);
+            if (target.protocol !== "http:" && target.protocol !== "https:") {
+              return;
+            }
+            // Pages are saved flat in the project root, so a relative link to
+            // a page that wasn't cloned would resolve against the wrong folder
+            const localPath = pathByUrl.get(scope.normalize(target.href));
+            const rewritten = localPath ? `./${localPath}${target.hash}` : target.href;
+            if (rewritten !== href) {
+              $(el).attr("href", rewritten);
+              changed = true;
+            }
           } catch (error) {
-            console.error(`Failed to clone sub-page: ${subLink}`, error);
+            // Invalid URL, leave untouched
+          }
+        });
+
+        if (changed) {
+          const updatedHtml = $.html();
+          await fileManager.saveFile(projectId, page.path, updatedHtml);
+          const file = files.find((f) => f.path === page.path);
+          if (file) {
+            await storage.updateFileContent(file.id, updatedHtml);
           }
         }
+      } catch (error) {
+        console.error(`Failed to rewrite links in page: ${page.url}`, error);
       }
+    }
+  }
 
-      // Get all files for final count
-      const allFiles = await storage.getFilesByProject(projectId);
-      const totalSize = allFiles.reduce((sum, file) => sum + (file.size || 0), 0);
+  /**
+   * Re-download the resources that failed in an earlier run and point the
+   * saved HTML/CSS that referenced them at the new local copies.
+   */
+  async retryFailedResources(projectId: string): Promise<{ retried: number; recovered: number; failed: number }> {
+    const project = await storage.getProject(projectId);
+    if (!project) {
+      throw new Error("Project not found");
+    }
 
-      const successRate = totalResources > 0 
-        ? Math.round((downloadedCount / totalResources) * 100) 
-        : 100;
-      
-      let completionMessage = `Clone complete - ${downloadedCount}/${totalResources} resources downloaded (${successRate}%)`;
-      if (failedCount > 0) {
-        completionMessage += ` - ${failedCount} resources failed but clone completed successfully`;
-        console.warn(`Clone completed with ${failedCount} errors:`, errors.slice(0, 10));
-      }
+    const politeness = crawlPolitenessSchema.parse(project.politeness ?? {});
+    const assets = assetOptionsSchema.parse(project.assetOptions ?? {});
+    const render = renderOptionsSchema.parse(project.renderOptions ?? {});
+    const authProfile = project.cloneMethod === "replay" ? null : openAuthProfile(project.authProfile);
+    const auth = authProfile ? new RequestAuth(authProfile, project.url) : null;
+    const session = this.createSession(projectId, project.url, politeness, assets, render, auth, new CloneSignal());
+    if (project.cloneMethod === "replay") {
+      // Replay projects retry from their archive, never the network
+      session.replay = await HarArchive.load(fileManager.getHarPath(projectId));
+    }
+    if (auth?.loginSteps.length) {
+      await this.signIn(session, project.url);
+    }
+    const resources = await storage.getResourcesByProject(projectId);
 
-      await storage.updateProjectStatus(projectId, "complete", {
-        totalFiles: allFiles.length,
-        totalSize,
-        currentStep: completionMessage,
-        progressPercentage: 100,
-      });
+    this.seedSession(session, resources);
 
-      onProgress?.(100, completionMessage);
-    } catch (error) {
-      await storage.updateProjectStatus(projectId, "error", {
-        errorMessage: error instanceof Error ? error.message : "Unknown error",
+    const failed = resources.filter((resource) => resource.status === "failed");
+    let recovered = 0;
+
+    await Promise.all(failed.map((resource) => {
+      const kind = resource.kind as ResourceKind;
+      const priority = kind === "other" ? DOWNLOAD_PRIORITY.image : DOWNLOAD_PRIORITY[kind];
+
+      return session.downloads.schedule(resource.url, priority, async () => {
+        try {
+          const localPath = kind === "css"
+            ? await this.downloadStylesheet(session, resource.url, resource.url)
+            : kind === "manifest"
+            ? await this.downloadManifest(session, resource.url, resource.url)
+            : kind === "js"
+            ? await this.downloadScript(session, resource.url, resource.url)
+            : await this.downloadResource(session, resource.url, resource.url, kind);
+          await this.patchReferences(projectId, resource.references ?? [], localPath);
+          recovered++;
+        } catch (error) {
+          console.error(`Retry failed for resource: ${resource.url}`, error);
+          const previous = resource.attempts ?? 0;
+          const details = failureDetails(error);
+          await this.recordResource(session, resource.url, kind, { ...details, attempts: previous + (details.attempts ?? 0) });
+        }
       });
-      throw error;
+    }));
+
+    const allFiles = await storage.getFilesByProject(projectId);
+    await storage.updateProjectStatus(projectId, project.status, {
+      totalFiles: allFiles.length,
+      totalSize: allFiles.reduce((sum, file) => sum + (file.size || 0), 0),
+    });
+
+    return { retried: failed.length, recovered, failed: failed.length - recovered };
+  }
+
+  /**
+   * Point every saved reference to a resource at its local copy. References
+   * live in HTML pages (attributes, <style> blocks, style attributes and
+   * inline modules), stylesheets, scripts or web app manifests.
+   */
+  private async patchReferences(projectId: string, references: ResourceReference[], localPath: string): Promise<void> {
+    const files = await storage.getFilesByProject(projectId);
+
+    for (const [file, refs] of Array.from(groupReferences(references))) {
+      try {
+        const target = relativeReference(file, localPath);
+        let content = await fileManager.readFile(projectId, file);
+
+        if (file.endsWith(".css")) {
+          content = replaceCssReferences(content, refs, target);
+        } else if (file.startsWith(`${RESOURCE_STORAGE.js.folder}/`)) {
+          content = replaceScriptReferences(content, refs, target);
+        } else if (file.startsWith("manifest/")) {
+          content = replaceManifestReferences(content, refs, target.replace(/^\.\//, ""));
+        } else {
+          const $ = cheerio.load(content);
+          $("[href], [src], [data-src], [poster], [srcset], [data-srcset], [imagesrcset], [style]").each((_, el) => {
+            for (const attr of ["href", "src", "data-src", "poster"]) {
+              const value = $(el).attr(attr);
+              if (value && refs.includes(value)) {
+                $(el).attr(attr, target);
+              }
+            }
+            for (const attr of SRCSET_ATTRIBUTES) {
+              const candidates = parseSrcset($(el).attr(attr) ?? "");
+              if (candidates.some((candidate) => refs.includes(candidate.url))) {
+                $(el).attr(attr, serializeSrcset(candidates.map((candidate) =>
+                  refs.includes(candidate.url) ? { ...candidate, url: target } : candidate)));
+              }
+            }
+            const style = $(el).attr("style");
+            if (style) {
+              $(el).attr("style", replaceCssReferences(style, refs, target));
+            }
+          });
+          $("style").each((_, el) => {
+            $(el).text(replaceCssReferences($(el).text(), refs, target));
+          });
+          $('script[type="module"]:not([src])').each((_, el) => {
+            $(el).text(replaceScriptReferences($(el).text(), refs, target));
+          });
+          $("meta[content]").each((_, el) => {
+            if (refs.includes($(el).attr("content")!)) {
+              $(el).attr("content", target);
+            }
+          });
+          content = $.html();
+        }
+
+        await fileManager.saveFile(projectId, file, content);
+        const stored = files.find((f) => f.path === file);
+        if (stored) {
+          await storage.updateFileContent(stored.id, content);
+        }
+      } catch (error) {
+        console.error(`Failed to patch references in ${file}`, error);
+      }
     }
   }
 
-  private async cloneSinglePage(
-    projectId: string,
-    url: string,
-    method: "static" | "playwright",
-    onProgress?: CloneProgressCallback
-  ): Promise<void> {
+  /**
+   * Render a page in the browser with the session's post-load routine, and
+   * keep the response bodies it received for the downloads that follow.
+   */
+  private async renderPage(session: CloneSession, url: string, onProgress?: (progress: number) => void) {
+    // Playwright writes one HAR per page; it is merged into the project's archive once the page closes
+    const pageHar = session.har ? path.join(os.tmpdir(), `${session.projectId}-${randomUUID()}.har`) : undefined;
+    let result: Awaited<ReturnType<typeof playwrightService.renderPage>>;
     try {
-      let html: string;
+      result = await session.throttle.schedule(url, () => playwrightService.renderPage(url, onProgress, {
+        signal: session.signal.abortSignal,
+        render: session.render,
+        captureMaxBytes: Math.max(session.fetcher.policy.maxResponseBytes, session.assets.maxMediaBytes),
+        recordHar: pageHar,
+        auth: session.auth ?? undefined,
+        replayHar: session.replay ? path.resolve(fileManager.getHarPath(session.projectId)) : undefined,
+      }));
+    } finally {
+      // A page that failed to render still leaves the requests it made
+      if (pageHar) {
+        await session.har?.addBrowserHar(pageHar)
+          .catch((error) => console.warn(`Could not record the HAR for ${url}:`, error instanceof Error ? error.message : error));
+      }
+    }
 
-      if (method === "static") {
-        const response = await fetch(url);
-        html = await response.text();
-      } else {
-        const result = await playwrightService.renderPage(url);
-        html = result.html;
+    result.responses.forEach((response, responseUrl) => {
+      // Resources saved for an earlier page aren't downloaded again
+      if (!session.resourcePaths.has(responseUrl) && !session.pendingDownloads.has(responseUrl)) {
+        session.responseCache.set(responseUrl, response);
       }
+    });
+    return result;
+  }
 
-      const $ = cheerio.load(html);
-      const urlObj = new URL(url);
-      const pagePath = urlObj.pathname === '/' ? 'index' : urlObj.pathname.replace(/^\//, '').replace(/\//g, '_');
-      
-      // Save as separate HTML file
-      const htmlFileName = `${pagePath}.html`;
-      await fileManager.saveFile(projectId, htmlFileName, html);
-      await storage.createFile({
-        projectId,
-        path: htmlFileName,
-        content: html,
-        type: "html",
-        size: html.length,
-      });
-    } catch (error) {
-      console.error(`Failed to clone page: ${url}`, error);
-      throw error;
+  /**
+   * A body the browser already received is used once, in place of a
+   * request. In replay mode everything else comes from the archive; when
+   * recording, what the fetcher downloads is added to it.
+   */
+  private async fetchResource(session: CloneSession, url: string, maxResponseBytes?: number): Promise<FetchedResource> {
+    const key = url.split("#")[0];
+    const limit = maxResponseBytes ?? session.fetcher.policy.maxResponseBytes;
+    const captured = session.responseCache.get(key);
+    if (captured) {
+      session.responseCache.delete(key);
+      if (captured.body.length <= limit) {
+        return { ...captured, attempts: 1 };
+      }
+    }
+    if (session.replay) {
+      return session.replay.resource(url, limit);
     }
+
+    const resource = await session.fetcher.fetch(url, maxResponseBytes);
+    session.har?.addResponse(key, resource);
+    return resource;
   }
 
-  private async fetchResource(url: string): Promise<Buffer> {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${url}: ${response.statusText}`);
+  // fetch() for robots.txt and sitemaps
+  private plainFetch(session: CloneSession): (url: string) => Promise<Response> {
+    const { replay, auth } = session;
+    if (replay) {
+      return (target) => replay.fetch(target);
     }
-    return Buffer.from(await response.arrayBuffer());
+    return (target) => urlGuard.fetch(target, {}, auth ? (hop) => auth.headersFor(hop) : undefined);
   }
 
-  private parseCSSForResources(cssContent: string, cssUrl: string): {
-    imports: string[];
-    urls: string[];
-  } {
-    const imports: string[] = [];
-    const urls: string[] = [];
+  // Run the profile's login steps in the browser and keep the cookies they leave behind
+  private async signIn(session: CloneSession, siteUrl: string): Promise<void> {
+    const auth = session.auth!;
+    const cookies = await session.throttle.schedule(siteUrl, () => playwrightService.login(siteUrl, auth.loginSteps, {
+      auth,
+      signal: session.signal.abortSignal,
+    }));
+    auth.addCookies(cookies);
+  }
 
-    const importRegex = /@import\s+(?:url\()?['"]?([^'"\)]+)['"]?\)?[^;]*;/g;
-    let match;
-    while ((match = importRegex.exec(cssContent)) !== null) {
-      imports.push(match[1]);
+  /**
+   * Create or update the resources row for a URL. Rows are keyed by URL per
+   * clone run; each distinct reference to the URL is appended to the row.
+   */
+  private async recordResource(
+    session: CloneSession,
+    url: string,
+    kind: ResourceKind,
+    details: Partial<InsertResource>,
+    reference?: ResourceReference
+  ): Promise<void> {
+    // Requests aborted by a pause or cancel will be retried on resume
+    if (details.status === "failed" && session.signal.stopped) {
+      return;
     }
 
-    const urlRegex = /url\(['"]?([^'")\s]+)['"]?\)/g;
-    while ((match = urlRegex.exec(cssContent)) !== null) {
-      const urlPath = match[1];
-      // Download all URLs except data URIs (including absolute http/https URLs)
-      if (!urlPath.startsWith('data:')) {
-        urls.push(urlPath);
-      }
+    const entry = session.resourceLog.get(url);
+    if (!entry) {
+      const references = reference ? [reference] : [];
+      const id = storage
+        .createResource({
+          projectId: session.projectId,
+          url,
+          kind,
+          status: "downloaded",
+          ...details,
+          references: [...references],
+        })
+        .then((resource) => resource.id);
+      session.resourceLog.set(url, { id, references });
+      await id;
+      return;
     }
 
-    return { imports, urls };
+    if (reference && !entry.references.some((r) => r.file === reference.file && r.ref === reference.ref)) {
+      entry.references.push(reference);
+    }
+    await storage.updateResource(await entry.id, { ...details, references: [...entry.references] });
   }
 
-  private cssVisited = new Set<string>();
-  private cssUrlToLocalPath = new Map<string, string>();
-
   private async processCSS(
-    projectId: string,
+    session: CloneSession,
     cssContent: string,
     cssUrl: string,
     cssLocalPath: string,
-    baseUrl: string,
-    failedCount?: { count: number },
-    errors?: string[]
+    encoding: string
   ): Promise<string> {
     // If already processed, return early (file already saved)
-    if (this.cssVisited.has(cssUrl)) {
+    if (session.cssVisited.has(cssUrl)) {
       return "";  // Return empty - caller should not save
     }
     
     // Mark as being processed and store canonical path
-    this.cssVisited.add(cssUrl);
-    this.cssUrlToLocalPath.set(cssUrl, cssLocalPath);
+    session.cssVisited.add(cssUrl);
+    session.cssUrlToLocalPath.set(cssUrl, cssLocalPath);
 
-    const { imports, urls } = this.parseCSSForResources(cssContent, cssUrl);
-    let processedCSS = cssContent;
+    // Saved as UTF-8, whatever it was served as
+    return this.resolveCSS(session, declareCssUtf8(cssContent), cssUrl, cssLocalPath, encoding);
+  }
 
-    // Process @import statements
-    for (const importPath of imports) {
-      try {
-        const absoluteUrl = new URL(importPath, cssUrl).href;
-        
-        // Get or create canonical local path for this CSS URL
-        let importLocalPath: string;
-        if (this.cssUrlToLocalPath.has(absoluteUrl)) {
-          // Already processed - reuse existing path
-          importLocalPath = this.cssUrlToLocalPath.get(absoluteUrl)!;
-        } else {
-          // First time seeing this - create canonical path from the import URL itself
-          importLocalPath = fileManager.getLocalPath(importPath, absoluteUrl);
-          this.cssUrlToLocalPath.set(absoluteUrl, importLocalPath);
-        }
-        
-        // If not yet visited, fetch and process it
-        if (!this.cssVisited.has(absoluteUrl)) {
-          const importContent = await this.fetchResource(absoluteUrl);
-          
-          // Recursively process the imported CSS first
-          const recursivelyProcessed = await this.processCSS(
-            projectId,
-            importContent.toString(),
-            absoluteUrl,
-            importLocalPath,
-            baseUrl,
-            failedCount,
-            errors
-          );
-
-          // Only save if recursivelyProcessed is not empty (not already saved)
-          if (recursivelyProcessed) {
-            const fullLocalPath = `css/${importLocalPath}`;
-            await fileManager.saveFile(projectId, fullLocalPath, Buffer.from(recursivelyProcessed));
-            await storage.createFile({
-              projectId,
-              path: fullLocalPath,
-              content: recursivelyProcessed,
-              type: "css",
-              size: recursivelyProcessed.length,
-            });
-          }
-        }
+  /**
+   * Download everything a piece of CSS references (@import, url(),
+   * image-set()) and rewrite those references relative to `file`, the project
+   * file the CSS ends up in: a stylesheet, or the HTML page for <style>
+   * blocks and style attributes. `encoding` is the one the CSS was served in;
+   * imported stylesheets that don't declare theirs are read with it.
+   */
+  private async resolveCSS(
+    session: CloneSession,
+    cssContent: string,
+    baseUrl: string,
+    file: string,
+    encoding: string = "utf-8"
+  ): Promise<string> {
+    const fileDepth = file.split('/').length - 1;
+    const rootPrefix = fileDepth > 0 ? '../'.repeat(fileDepth) : './';
 
-        // Calculate correct relative path from current CSS to imported CSS
-        const cssDepth = cssLocalPath.split('/').length - 1;
-        const relativePrefix = cssDepth > 0 ? '../'.repeat(cssDepth) : './';
-        
-        processedCSS = processedCSS.replace(
-          new RegExp(`@import\\s+(?:url\\()?['"]?${importPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}['"]?\\)?[^;]*;`, 'g'),
-          `@import url('${relativePrefix}${importLocalPath}');`
-        );
+    // Each reference is rewritten where it was found; everything else is written back untouched
+    const sheet = new Stylesheet(cssContent);
+
+    // Process @import statements, keeping any layer(), supports() or media conditions
+    for (const cssImport of sheet.imports) {
+      const importPath = cssImport.url;
+
+      // Stylesheets being processed (e.g. up an @import cycle) already have their path;
+      // waiting for their download would deadlock
+      let importLocalPath: string | null | undefined;
+      try {
+        importLocalPath = session.cssUrlToLocalPath.get(new URL(importPath, baseUrl).href);
       } catch (error) {
-        if (failedCount) failedCount.count++;
-        const errorMsg = `CSS @import: ${importPath} - ${error instanceof Error ? error.message : 'Unknown error'}`;
-        if (errors) errors.push(errorMsg);
-        console.error(`Failed to download @import: ${importPath}`, error);
+        // Invalid URL, reported by downloadReferenced
+      }
+      if (!importLocalPath) {
+        importLocalPath = await this.downloadReferenced(session, "CSS @import", { file, ref: importPath }, baseUrl, "css",
+          () => this.downloadStylesheet(session, importPath, baseUrl, encoding));
+      }
+
+      if (importLocalPath) {
+        cssImport.rewrite(`${rootPrefix}${importLocalPath}`);
       }
     }
 
-    // Process url() references
-    for (const urlPath of urls) {
-      try {
-        const absoluteUrl = new URL(urlPath, cssUrl).href;
-        const content = await this.fetchResource(absoluteUrl);
-        const localPath = fileManager.getLocalPath(urlPath, cssUrl);
-        
-        const ext = localPath.split('.').pop()?.toLowerCase();
-        let folder = 'css';
-        let fileType: 'font' | 'image' | 'css' | 'other' = 'other';
-        
-        if (['woff', 'woff2', 'ttf', 'otf', 'eot'].includes(ext || '')) {
-          folder = 'fonts';
-          fileType = 'font';
-        } else if (['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'ico'].includes(ext || '')) {
-          folder = 'images';
-          fileType = 'image';
-        }
+    // Download a url() or image-set() reference; returns its path relative to `file`
+    const fetchReference = async (urlPath: string, kind: AssetKind): Promise<string | null> => {
+      const fullLocalPath = await this.downloadReferenced(session, "CSS resource", { file, ref: urlPath }, baseUrl, kind,
+        () => this.downloadResource(session, urlPath, baseUrl, kind));
+      return fullLocalPath ? `${rootPrefix}${fullLocalPath}` : null;
+    };
+
+    // A URL used several times in the same CSS is only downloaded and counted once
+    const downloaded = new Map<string, Promise<string | null>>();
+    const downloadReference = (urlPath: string, kind: AssetKind): Promise<string | null> => {
+      let pending = downloaded.get(urlPath);
+      if (!pending) {
+        pending = fetchReference(urlPath, kind);
+        downloaded.set(urlPath, pending);
+      }
+      return pending;
+    };
+
+    // Process image-set() candidates, dropping the ones not selected
+    for (const imageSet of sheet.imageSets) {
+      const selected = selectCandidates(imageSet.candidates, session.assets);
+      const rewritten: ImageCandidate[] = [];
+      for (const candidate of selected) {
+        const relativePath = isRemoteReference(candidate.url) ? await downloadReference(candidate.url, 'image') : null;
+        rewritten.push(relativePath ? { ...candidate, url: relativePath } : candidate);
+      }
+      imageSet.rewrite(rewritten);
+    }
 
-        const fullLocalPath = `${folder}/${localPath}`;
-        await fileManager.saveFile(projectId, fullLocalPath, content);
-        await storage.createFile({
-          projectId,
-          path: fullLocalPath,
-          content: "",
-          type: fileType,
-          size: content.length,
-        });
+    // Process url() references
+    for (const reference of sheet.urls) {
+      if (!isRemoteReference(reference.url)) {
+        continue;
+      }
 
-        // Calculate correct relative path from CSS file to resource
-        const cssDepth = cssLocalPath.split('/').length - 1;
-        const relativePrefix = cssDepth > 0 ? '../'.repeat(cssDepth + 1) : '../';
-        const relativePath = `${relativePrefix}${folder}/${localPath}`;
-        
-        processedCSS = processedCSS.replace(
-          new RegExp(`url\\(['"]?${urlPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}['"]?\\)`, 'g'),
-          `url('${relativePath}')`
-        );
-      } catch (error) {
-        if (failedCount) failedCount.count++;
-        const errorMsg = `CSS resource: ${urlPath} - ${error instanceof Error ? error.message : 'Unknown error'}`;
-        if (errors) errors.push(errorMsg);
-        console.error(`Failed to download CSS resource: ${urlPath}`, error);
+      const relativePath = await downloadReference(reference.url, kindFromExtension(reference.url, baseUrl));
+      if (relativePath) {
+        reference.rewrite(relativePath);
       }
     }
 
-    return processedCSS;
+    return sheet.toString();
   }
 
-  async estimateClone(url: string, method: "static" | "playwright" = "static", crawlDepth: number = 0): Promise<{
+  async estimateClone(
+    url: string,
+    method: "static" | "playwright" = "static",
+    crawlDepth: number = 0,
+    crawlRules?: CrawlRules | null,
+    authProfile?: AuthProfile | null
+  ): Promise<{
     estimatedTime: number;
     estimatedSize: number;
     resourceCount: number;
   }> {
     try {
-      // Fetch the HTML
-      const response = await fetch(url);
-      const html = await response.text();
+      // Fetch the HTML; login steps only run for the clone itself
+      const auth = authProfile ? new RequestAuth(authProfile, url) : null;
+      const signal = AbortSignal.timeout(ESTIMATE_TIMEOUT_MS);
+      const estimateFetch = (target: string) => urlGuard.fetch(target, { signal }, auth ? (hop) => auth.headersFor(hop) : undefined);
+      const response = await estimateFetch(url);
+      const { text: html } = decodeHtml(await readBody(response, ESTIMATE_MAX_HTML_BYTES), response.headers.get("content-type"));
       const htmlSize = html.length;
 
       // Parse HTML to count resources
@@ -823,7 +1844,11 @@ export class CloneService {
 
       // If crawling sub-pages, multiply estimates
       if (crawlDepth > 0) {
-        const estimatedSubPages = Math.min(10, totalResources / 5); // Rough estimate
+        // Prefer the sitemap's page count when the crawl uses it; fall back to a guess from the page's resources
+        const sitemapPages = crawlRules?.useSitemap ? await this.countSitemapPages(url, crawlRules, estimateFetch) : null;
+        const estimatedSubPages = sitemapPages !== null
+          ? Math.min(MAX_CRAWL_PAGES, sitemapPages)
+          : Math.min(10, totalResources / 5);
         estimatedSize *= (1 + estimatedSubPages * 0.5); // Each sub-page ~50% of main page size
         estimatedTime += estimatedSubPages * (method === "static" ? 2 : 4); // Add time per sub-page
       }
@@ -842,6 +1867,32 @@ export class CloneService {
       };
     }
   }
+
+  /**
+   * Number of in-scope, same-host pages listed in the site's sitemaps,
+   * or null when the site has no readable sitemap.
+   */
+  private async countSitemapPages(
+    url: string,
+    crawlRules: CrawlRules,
+    fetchImpl: (url: string) => Promise<Response>
+  ): Promise<number | null> {
+    const robots = await RobotsTxt.fetch(url, fetchImpl);
+    const sitemap = await sitemapService.discoverUrls(url, { sitemapUrls: robots.sitemaps, fetchImpl });
+    if (sitemap.sitemaps.length === 0) {
+      return null;
+    }
+
+    const scope = new CrawlScope(crawlRules);
+    const hostname = new URL(url).hostname;
+    const pages = new Set(
+      sitemap.urls
+        .filter((pageUrl) => new URL(pageUrl).hostname === hostname && scope.accepts(pageUrl))
+        .map((pageUrl) => scope.normalize(pageUrl))
+    );
+    pages.delete(scope.normalize(url));
+    return pages.size;
+  }
 }
 
 export const cloneService = new CloneService();
@@ -0,0 +1,43 @@
+export type CloneStopReason = "paused" | "cancelled";
+
+/**
+ * Stop flag shared by everything working on one clone run. Workers check it
+ * in memory instead of re-reading the project from storage before each file,
+ * and in-flight requests and renders are aborted through `abortSignal`.
+ */
+export class CloneSignal {
+  private stopReason: CloneStopReason | null = null;
+  private listeners: Array<(reason: CloneStopReason) => void> = [];
+  private controller = new AbortController();
+
+  get abortSignal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get stopped(): boolean {
+    return this.stopReason !== null;
+  }
+
+  get reason(): CloneStopReason | null {
+    return this.stopReason;
+  }
+
+  stop(reason: CloneStopReason): void {
+    if (this.stopReason) {
+      return;
+    }
+    this.stopReason = reason;
+    for (const listener of this.listeners.splice(0)) {
+      listener(reason);
+    }
+    this.controller.abort(reason);
+  }
+
+  onStop(listener: (reason: CloneStopReason) => void): void {
+    if (this.stopReason) {
+      listener(this.stopReason);
+    } else {
+      this.listeners.push(listener);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { URL } from "url";
+import { REGEX_MARKER, parseRegexPattern, type CrawlRules } from "@shared/schema";
+
+/**
+ * Compile a crawl pattern. Patterns starting with `re:` are regular
+ * expressions tested against the full URL, written bare (`re:logout`) or
+ * with flags (`re:/logout/i`); anything else is a glob tested against the
+ * URL path (`*` stays within a segment, `**` spans segments).
+ */
+function compilePattern(pattern: string): (urlObj: URL) => boolean {
+  const regex = parseRegexPattern(pattern);
+  if (regex) {
+    return (urlObj) => regex.test(urlObj.href);
+  }
+  if (pattern.startsWith(REGEX_MARKER)) {
+    // Rejected when the rules are saved; an invalid regex matches nothing
+    return () => false;
+  }
+
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // A trailing /** also matches the folder itself (/docs/** matches /docs)
+      if (source.endsWith("/") && i + 2 === pattern.length) {
+        source = `${source.slice(0, -1)}(?:/.*)?`;
+      } else {
+        source += ".*";
+      }
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const glob = new RegExp(`^${source}$`);
+  return (urlObj) => glob.test(urlObj.pathname);
+}
+
+/**
+ * Applies a project's crawl rules: which URLs may be crawled and how they
+ * are normalized (fragment dropped, query string kept/stripped/filtered)
+ * so equivalent links dedupe to the same page.
+ */
+export class CrawlScope {
+  private includes: Array<(urlObj: URL) => boolean>;
+  private excludes: Array<(urlObj: URL) => boolean>;
+  private pathPrefix: string | null;
+  private queryMode: CrawlRules["queryMode"];
+  private allowedParams: Set<string>;
+
+  constructor(rules?: CrawlRules | null) {
+    this.includes = (rules?.include ?? []).filter(Boolean).map(compilePattern);
+    this.excludes = (rules?.exclude ?? []).filter(Boolean).map(compilePattern);
+    // Matched on whole segments: /docs and /docs/ both admit /docs/intro, not /docs-old
+    this.pathPrefix = rules?.pathPrefix?.trim().replace(/\/+$/, "") || null;
+    this.queryMode = rules?.queryMode ?? "keep";
+    this.allowedParams = new Set(rules?.allowedParams ?? []);
+  }
+
+  normalize(url: string): string {
+    const urlObj = new URL(url);
+    urlObj.hash = "";
+
+    if (this.queryMode === "strip") {
+      urlObj.search = "";
+    } else if (this.queryMode === "allowlist") {
+      for (const key of Array.from(urlObj.searchParams.keys())) {
+        if (!this.allowedParams.has(key)) {
+          urlObj.searchParams.delete(key);
+        }
+      }
+    }
+
+    return urlObj.href;
+  }
+
+  accepts(url: string): boolean {
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url);
+    } catch (error) {
+      return false;
+    }
+
+    if (this.pathPrefix && urlObj.pathname !== this.pathPrefix && !urlObj.pathname.startsWith(`${this.pathPrefix}/`)) {
+      return false;
+    }
+    if (this.excludes.some((matches) => matches(urlObj))) {
+      return false;
+    }
+    if (this.includes.length > 0 && !this.includes.some((matches) => matches(urlObj))) {
+      return false;
+    }
+    return true;
+  }
+}
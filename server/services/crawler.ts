@@ -0,0 +1,117 @@
+import { CrawlScope } from "./crawlRules";
+import type { CloneCheckpoint } from "@shared/schema";
+
+// Hard ceiling so a deep crawl of a large site can't run forever
+export const MAX_CRAWL_PAGES = 200;
+
+export interface CrawlEntry {
+  url: string;
+  depth: number;
+  parentUrl: string | null;
+}
+
+/**
+ * Breadth-first crawl queue. Entries are handed out level by level
+ * (every depth-1 page before any depth-2 page) and each URL is only
+ * ever enqueued once.
+ */
+export class CrawlFrontier {
+  private queue: CrawlEntry[] = [];
+  private visited = new Set<string>();
+  private maxDepth: number;
+  private maxPages: number;
+  readonly scope: CrawlScope;
+
+  constructor(maxDepth: number, scope: CrawlScope = new CrawlScope(), maxPages: number = MAX_CRAWL_PAGES) {
+    this.maxDepth = maxDepth;
+    this.scope = scope;
+    this.maxPages = maxPages;
+  }
+
+  /**
+   * Queue a page for crawling. Returns false when the URL was already
+   * seen, falls outside the crawl rules, is deeper than the configured
+   * depth, or the page budget is used up.
+   */
+  add(url: string, depth: number, parentUrl: string | null = null): boolean {
+    if (depth > this.maxDepth || this.visited.size >= this.maxPages) {
+      return false;
+    }
+
+    let normalized: string;
+    try {
+      normalized = this.scope.normalize(url);
+    } catch (error) {
+      return false;
+    }
+
+    if (!this.scope.accepts(normalized)) {
+      return false;
+    }
+
+    if (this.visited.has(normalized)) {
+      return false;
+    }
+
+    this.visited.add(normalized);
+    this.queue.push({ url: normalized, depth, parentUrl });
+    return true;
+  }
+
+  /**
+   * Mark a URL as already handled without queueing it (e.g. the root page).
+   */
+  markVisited(url: string): void {
+    try {
+      this.visited.add(this.scope.normalize(url));
+    } catch (error) {
+      // Invalid URL, nothing to mark
+    }
+  }
+
+  next(): CrawlEntry | undefined {
+    return this.queue.shift();
+  }
+
+  /**
+   * Put an entry taken with next() back at the head of the queue, e.g. when
+   * the clone was paused before the page finished.
+   */
+  requeue(entry: CrawlEntry): void {
+    this.queue.unshift(entry);
+  }
+
+  snapshot(): NonNullable<CloneCheckpoint["frontier"]> {
+    return {
+      queue: this.queue.map((entry) => ({ ...entry })),
+      visited: Array.from(this.visited),
+    };
+  }
+
+  /**
+   * Rebuild a frontier from a checkpoint taken with snapshot().
+   */
+  static restore(
+    snapshot: NonNullable<CloneCheckpoint["frontier"]>,
+    maxDepth: number,
+    scope: CrawlScope = new CrawlScope(),
+    maxPages: number = MAX_CRAWL_PAGES
+  ): CrawlFrontier {
+    const frontier = new CrawlFrontier(maxDepth, scope, maxPages);
+    frontier.queue = snapshot.queue.map((entry) => ({ ...entry }));
+    frontier.visited = new Set(snapshot.visited);
+    return frontier;
+  }
+
+  canExpand(entry: CrawlEntry): boolean {
+    return entry.depth < this.maxDepth;
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  get discovered(): number {
+    return this.visited.size;
+  }
+}
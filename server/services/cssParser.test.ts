@@ -0,0 +1,151 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Stylesheet, tokenize } from "./cssParser";
+
+// Stylesheets that trip up regex-based URL extraction, keyed by what makes them tricky
+const FIXTURES: Record<string, string> = {
+  comments: `/* url(commented.png) @import "no.css"; */
+a { background: url(real.png) /* url(inline-comment.png) */ }
+/* unterminated url( in a comment */ b { color: red }`,
+  escapes: `a { background: url("q\\"uote.png") }
+b { background: url(paren\\)s.png) }
+c { background: url('single\\'quote.png') }`,
+  strings: `a::before { content: "url(not-a-url.png)"; }
+b::after { content: 'background: url(also-not.png)'; background: url(real.png) }`,
+  imports: `@charset "utf-8";
+@import "plain.css";
+@import url(layered.css) layer(base) supports(display: grid) screen and (min-width: 600px);
+@import url("anonymous-layer.css") layer;
+@import 'media.css' print, screen and (orientation: landscape);
+@namespace svg url(http://www.w3.org/2000/svg);
+a { color: red }`,
+  nested: `@media (min-width: 600px) {
+  @supports (display: grid) {
+    .a { background: url(grid.png) }
+    @media (prefers-color-scheme: dark) { .b { background: url( dark.png ) } }
+  }
+  @font-face { font-family: X; src: url(f.woff2) format("woff2"), url("f.woff") format("woff") }
+}
+.c { mask: url(#mask) }`,
+  imageSet: `a { background-image: image-set("a.png" 1x, url(a@2x.png) 2x type("image/png"), linear-gradient(red, blue) 3x); }
+b { background-image: -webkit-image-set(url(b.png) 1x, "b@2x.png" 2x); }`,
+  malformed: `a { background: url(bad url.png); color: red }
+b { background: url(ok.png) }
+c { content: "unterminated
+; }
+d { background: url("unclosed.png`,
+};
+
+describe("tokenize", () => {
+  it("round-trips every fixture byte for byte", () => {
+    for (const [name, css] of Object.entries(FIXTURES)) {
+      assert.equal(tokenize(css).map((token) => token.raw).join(""), css, name);
+    }
+  });
+
+  it("keeps comments whole, url( included", () => {
+    const comments = tokenize(FIXTURES.comments).filter((token) => token.type === "comment");
+    assert.deepEqual(comments.map((token) => token.raw), [
+      `/* url(commented.png) @import "no.css"; */`,
+      "/* url(inline-comment.png) */",
+      "/* unterminated url( in a comment */",
+    ]);
+  });
+
+  it("unescapes quotes and parentheses in url values", () => {
+    const urls = tokenize(FIXTURES.escapes)
+      .filter((token) => token.type === "url" || token.type === "string")
+      .map((token) => token.value);
+    assert.deepEqual(urls, [`q"uote.png`, "paren)s.png", "single'quote.png"]);
+  });
+});
+
+describe("Stylesheet", () => {
+  it("serializes untouched input exactly as written", () => {
+    for (const [name, css] of Object.entries(FIXTURES)) {
+      assert.equal(new Stylesheet(css).toString(), css, name);
+    }
+  });
+
+  it("ignores url( inside comments", () => {
+    const sheet = new Stylesheet(FIXTURES.comments);
+    assert.deepEqual(sheet.urls.map((reference) => reference.url), ["real.png"]);
+    assert.deepEqual(sheet.imports, []);
+  });
+
+  it("reads escaped quotes and \\) inside url()", () => {
+    const sheet = new Stylesheet(FIXTURES.escapes);
+    assert.deepEqual(sheet.urls.map((reference) => reference.url), [`q"uote.png`, "paren)s.png", "single'quote.png"]);
+  });
+
+  it("ignores url( inside strings", () => {
+    const sheet = new Stylesheet(FIXTURES.strings);
+    assert.deepEqual(sheet.urls.map((reference) => reference.url), ["real.png"]);
+  });
+
+  it("keeps layer(), supports() and media lists on @import", () => {
+    const sheet = new Stylesheet(FIXTURES.imports);
+    assert.deepEqual(
+      sheet.imports.map(({ url, conditions }) => ({ url, conditions })),
+      [
+        { url: "plain.css", conditions: "" },
+        { url: "layered.css", conditions: "layer(base) supports(display: grid) screen and (min-width: 600px)" },
+        { url: "anonymous-layer.css", conditions: "layer" },
+        { url: "media.css", conditions: "print, screen and (orientation: landscape)" },
+      ]
+    );
+    // The @namespace URL names a namespace; it isn't a file
+    assert.deepEqual(sheet.urls, []);
+
+    sheet.imports[1].rewrite("../css/layered.css");
+    assert.match(
+      sheet.toString(),
+      /@import url\(['"]?\.\.\/css\/layered\.css['"]?\) layer\(base\) supports\(display: grid\) screen and \(min-width: 600px\);/
+    );
+  });
+
+  it("finds references inside nested @media and @supports blocks", () => {
+    const sheet = new Stylesheet(FIXTURES.nested);
+    assert.deepEqual(
+      sheet.urls.map((reference) => reference.url),
+      ["grid.png", "dark.png", "f.woff2", "f.woff", "#mask"]
+    );
+  });
+
+  it("reads image-set() candidates and leaves gradients alone", () => {
+    const sheet = new Stylesheet(FIXTURES.imageSet);
+    assert.deepEqual(sheet.imageSets.map((imageSet) => imageSet.candidates), [
+      [
+        { url: "a.png", descriptor: "1x" },
+        { url: "a@2x.png", descriptor: `2x type("image/png")` },
+      ],
+      [
+        { url: "b.png", descriptor: "1x" },
+        { url: "b@2x.png", descriptor: "2x" },
+      ],
+    ]);
+    assert.deepEqual(sheet.urls, []);
+
+    const [first] = sheet.imageSets;
+    first.rewrite([{ url: "images/a.png", descriptor: "1x" }]);
+    const rewritten = new Stylesheet(sheet.toString());
+    assert.deepEqual(rewritten.imageSets[0].candidates, [{ url: "images/a.png", descriptor: "1x" }]);
+    assert.match(sheet.toString(), /linear-gradient\(red, blue\) 3x/);
+  });
+
+  it("recovers from bad urls and unterminated strings", () => {
+    const sheet = new Stylesheet(FIXTURES.malformed);
+    // A string cut off by the end of the input still counts, as it does in browsers
+    assert.deepEqual(sheet.urls.map((reference) => reference.url), ["ok.png", "unclosed.png"]);
+  });
+
+  it("rewrites only the references it is asked to", () => {
+    const css = `a{background:url(same.png)} /* keep */ b{background:url('other.png') no-repeat}`;
+    const sheet = new Stylesheet(css);
+    sheet.urls[0].rewrite("../images/same.png");
+    const output = sheet.toString();
+    assert.ok(output.startsWith("a{background:url("));
+    assert.ok(output.includes("../images/same.png"));
+    assert.ok(output.endsWith(` /* keep */ b{background:url('other.png') no-repeat}`));
+  });
+});
@@ -0,0 +1,573 @@
+import type { ImageCandidate } from "./responsiveImages";
+
+export type CssTokenType =
+  | "whitespace"
+  | "comment"
+  | "string"
+  | "bad-string"
+  | "url"
+  | "bad-url"
+  | "function"
+  | "at-keyword"
+  | "ident"
+  | "hash"
+  | "number"
+  | "percentage"
+  | "dimension"
+  | "delim"
+  | "cdo"
+  | "cdc"
+  | "("
+  | ")"
+  | "["
+  | "]"
+  | "{"
+  | "}"
+  | ","
+  | ":"
+  | ";";
+
+export interface CssToken {
+  type: CssTokenType;
+  raw: string; // exactly as written, so serializing the tokens gives back the input
+  value: string; // unescaped: the URL of a url token, the text of a string, the name of an ident/function/at-keyword
+}
+
+/**
+ * A component value: a single token, or a function / simple block with the
+ * values nested inside it. `close` is missing when the input ended first.
+ */
+export interface CssNode {
+  token: CssToken;
+  children?: CssNode[];
+  close?: CssToken;
+}
+
+const PUNCTUATION = new Set(["(", ")", "[", "]", "{", "}", ",", ":", ";"]);
+const BLOCK_CLOSE: Record<string, string> = { "(": ")", "[": "]", "{": "}", function: ")" };
+
+const isDigit = (c: string | undefined) => c !== undefined && c >= "0" && c <= "9";
+const isHexDigit = (c: string | undefined) => c !== undefined && /^[0-9a-fA-F]$/.test(c);
+const isNewline = (c: string | undefined) => c === "\n" || c === "\r" || c === "\f";
+const isWhitespace = (c: string | undefined) => c === " " || c === "\t" || isNewline(c);
+const isNameStart = (c: string | undefined) => c !== undefined && (/^[a-zA-Z_]$/.test(c) || c.charCodeAt(0) >= 0x80);
+const isName = (c: string | undefined) => isNameStart(c) || isDigit(c) || c === "-";
+const isNonPrintable = (c: string | undefined) => {
+  if (c === undefined) {
+    return false;
+  }
+  const code = c.charCodeAt(0);
+  return code <= 0x08 || code === 0x0b || (code >= 0x0e && code <= 0x1f) || code === 0x7f;
+};
+const isValidEscape = (first: string | undefined, second: string | undefined) => first === "\\" && !isNewline(second);
+
+/**
+ * Tokenizer following CSS Syntax Level 3. Every character of the input ends
+ * up in exactly one token's `raw`, including comments and whitespace.
+ */
+class Tokenizer {
+  private position = 0;
+
+  constructor(private css: string) {}
+
+  tokenize(): CssToken[] {
+    const tokens: CssToken[] = [];
+    while (this.position < this.css.length) {
+      const start = this.position;
+      const { type, value } = this.next();
+      tokens.push({ type, value, raw: this.css.slice(start, this.position) });
+    }
+    return tokens;
+  }
+
+  private peek(offset: number = 0): string | undefined {
+    return this.css[this.position + offset];
+  }
+
+  private startsIdentifier(offset: number = 0): boolean {
+    const first = this.peek(offset);
+    if (first === "-") {
+      const second = this.peek(offset + 1);
+      return isNameStart(second) || second === "-" || isValidEscape(second, this.peek(offset + 2));
+    }
+    return isNameStart(first) || isValidEscape(first, this.peek(offset + 1));
+  }
+
+  private startsNumber(offset: number = 0): boolean {
+    const first = this.peek(offset);
+    if (first === "+" || first === "-") {
+      const second = this.peek(offset + 1);
+      return isDigit(second) || (second === "." && isDigit(this.peek(offset + 2)));
+    }
+    if (first === ".") {
+      return isDigit(this.peek(offset + 1));
+    }
+    return isDigit(first);
+  }
+
+  private next(): { type: CssTokenType; value: string } {
+    const c = this.peek();
+
+    if (c === "/" && this.peek(1) === "*") {
+      const end = this.css.indexOf("*/", this.position + 2);
+      this.position = end === -1 ? this.css.length : end + 2;
+      return { type: "comment", value: "" };
+    }
+    if (isWhitespace(c)) {
+      while (isWhitespace(this.peek())) {
+        this.position++;
+      }
+      return { type: "whitespace", value: " " };
+    }
+    if (c === '"' || c === "'") {
+      return this.consumeString(c);
+    }
+    if (c === "#") {
+      if (isName(this.peek(1)) || isValidEscape(this.peek(1), this.peek(2))) {
+        this.position++;
+        return { type: "hash", value: this.consumeName() };
+      }
+    }
+    if (c !== undefined && PUNCTUATION.has(c)) {
+      this.position++;
+      return { type: c as CssTokenType, value: c };
+    }
+    if ((c === "+" || c === ".") && this.startsNumber()) {
+      return this.consumeNumeric();
+    }
+    if (c === "-") {
+      if (this.startsNumber()) {
+        return this.consumeNumeric();
+      }
+      if (this.peek(1) === "-" && this.peek(2) === ">") {
+        this.position += 3;
+        return { type: "cdc", value: "-->" };
+      }
+      if (this.startsIdentifier()) {
+        return this.consumeIdentLike();
+      }
+    }
+    if (c === "<" && this.css.startsWith("<!--", this.position)) {
+      this.position += 4;
+      return { type: "cdo", value: "<!--" };
+    }
+    if (c === "@" && this.startsIdentifier(1)) {
+      this.position++;
+      return { type: "at-keyword", value: this.consumeName() };
+    }
+    if (c === "\\" && isValidEscape(c, this.peek(1))) {
+      return this.consumeIdentLike();
+    }
+    if (isDigit(c)) {
+      return this.consumeNumeric();
+    }
+    if (isNameStart(c)) {
+      return this.consumeIdentLike();
+    }
+
+    this.position++;
+    return { type: "delim", value: c ?? "" };
+  }
+
+  // Called with the position on the backslash of a valid escape
+  private consumeEscape(): string {
+    this.position++;
+    const c = this.peek();
+    if (c === undefined) {
+      return "\uFFFD";
+    }
+    if (!isHexDigit(c)) {
+      this.position++;
+      return c;
+    }
+
+    let hex = "";
+    while (hex.length < 6 && isHexDigit(this.peek())) {
+      hex += this.peek();
+      this.position++;
+    }
+    if (this.peek() === "\r" && this.peek(1) === "\n") {
+      this.position += 2;
+    } else if (isWhitespace(this.peek())) {
+      this.position++;
+    }
+    const codePoint = parseInt(hex, 16);
+    const invalid = codePoint === 0 || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff);
+    return invalid ? "\uFFFD" : String.fromCodePoint(codePoint);
+  }
+
+  private consumeName(): string {
+    let name = "";
+    while (true) {
+      const c = this.peek();
+      if (isName(c)) {
+        name += c;
+        this.position++;
+      } else if (isValidEscape(c, this.peek(1))) {
+        name += this.consumeEscape();
+      } else {
+        return name;
+      }
+    }
+  }
+
+  private consumeString(quote: string): { type: CssTokenType; value: string } {
+    this.position++;
+    let value = "";
+    while (true) {
+      const c = this.peek();
+      if (c === undefined) {
+        return { type: "string", value };
+      }
+      if (c === quote) {
+        this.position++;
+        return { type: "string", value };
+      }
+      if (isNewline(c)) {
+        // Unescaped newline ends the string without consuming it
+        return { type: "bad-string", value };
+      }
+      if (c === "\\") {
+        const next = this.peek(1);
+        if (next === undefined) {
+          this.position++;
+        } else if (isNewline(next)) {
+          this.position += next === "\r" && this.peek(2) === "\n" ? 3 : 2;
+        } else {
+          value += this.consumeEscape();
+        }
+        continue;
+      }
+      value += c;
+      this.position++;
+    }
+  }
+
+  private consumeNumeric(): { type: CssTokenType; value: string } {
+    const start = this.position;
+    if (this.peek() === "+" || this.peek() === "-") {
+      this.position++;
+    }
+    while (isDigit(this.peek())) {
+      this.position++;
+    }
+    if (this.peek() === "." && isDigit(this.peek(1))) {
+      this.position++;
+      while (isDigit(this.peek())) {
+        this.position++;
+      }
+    }
+    const e = this.peek();
+    if ((e === "e" || e === "E") && (isDigit(this.peek(1)) || ((this.peek(1) === "+" || this.peek(1) === "-") && isDigit(this.peek(2))))) {
+      this.position += 2;
+      while (isDigit(this.peek())) {
+        this.position++;
+      }
+    }
+    const value = this.css.slice(start, this.position);
+
+    if (this.startsIdentifier()) {
+      return { type: "dimension", value: value + this.consumeName() };
+    }
+    if (this.peek() === "%") {
+      this.position++;
+      return { type: "percentage", value };
+    }
+    return { type: "number", value };
+  }
+
+  private consumeIdentLike(): { type: CssTokenType; value: string } {
+    const name = this.consumeName();
+
+    if (this.peek() !== "(") {
+      return { type: "ident", value: name };
+    }
+    this.position++;
+
+    if (name.toLowerCase() !== "url") {
+      return { type: "function", value: name };
+    }
+
+    // url( followed by a quote is an ordinary function with a string argument
+    let lookahead = 0;
+    while (isWhitespace(this.peek(lookahead))) {
+      lookahead++;
+    }
+    const next = this.peek(lookahead);
+    if (next === '"' || next === "'") {
+      return { type: "function", value: name };
+    }
+    return this.consumeUrl();
+  }
+
+  private consumeUrl(): { type: CssTokenType; value: string } {
+    let value = "";
+    while (isWhitespace(this.peek())) {
+      this.position++;
+    }
+
+    while (true) {
+      const c = this.peek();
+      if (c === undefined) {
+        return { type: "url", value };
+      }
+      if (c === ")") {
+        this.position++;
+        return { type: "url", value };
+      }
+      if (isWhitespace(c)) {
+        while (isWhitespace(this.peek())) {
+          this.position++;
+        }
+        if (this.peek() === ")" || this.peek() === undefined) {
+          continue;
+        }
+        return this.consumeBadUrl(value);
+      }
+      if (c === '"' || c === "'" || c === "(" || isNonPrintable(c)) {
+        return this.consumeBadUrl(value);
+      }
+      if (c === "\\") {
+        if (!isValidEscape(c, this.peek(1))) {
+          return this.consumeBadUrl(value);
+        }
+        value += this.consumeEscape();
+        continue;
+      }
+      value += c;
+      this.position++;
+    }
+  }
+
+  private consumeBadUrl(value: string): { type: CssTokenType; value: string } {
+    while (this.peek() !== undefined && this.peek() !== ")") {
+      if (isValidEscape(this.peek(), this.peek(1))) {
+        this.consumeEscape();
+      } else {
+        this.position++;
+      }
+    }
+    this.position++;
+    return { type: "bad-url", value };
+  }
+}
+
+export function tokenize(css: string): CssToken[] {
+  return new Tokenizer(css).tokenize();
+}
+
+/**
+ * Group tokens into component values: functions and (), [], {} blocks get
+ * their contents as children. Unmatched closing tokens stay plain tokens.
+ */
+export function parseComponents(tokens: CssToken[]): CssNode[] {
+  const root: CssNode[] = [];
+  const stack: Array<{ node: CssNode; closeWith: string }> = [];
+
+  for (const token of tokens) {
+    const current = stack.length > 0 ? stack[stack.length - 1] : null;
+    const siblings = current ? current.node.children! : root;
+
+    if (current && token.type === current.closeWith) {
+      current.node.close = token;
+      stack.pop();
+      continue;
+    }
+
+    const closeWith = BLOCK_CLOSE[token.type];
+    if (closeWith) {
+      const node: CssNode = { token, children: [] };
+      siblings.push(node);
+      stack.push({ node, closeWith });
+    } else {
+      siblings.push({ token });
+    }
+  }
+
+  return root;
+}
+
+export function serialize(nodes: CssNode[]): string {
+  let css = "";
+  for (const node of nodes) {
+    css += node.token.raw;
+    if (node.children) {
+      css += serialize(node.children);
+    }
+    if (node.close) {
+      css += node.close.raw;
+    }
+  }
+  return css;
+}
+
+function urlToken(url: string): CssToken {
+  const escaped = url.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, "\\a ");
+  return { type: "url", raw: `url('${escaped}')`, value: url };
+}
+
+// Turn `node` into a url('target') token in place, dropping any url("...") arguments
+function replaceWithUrl(node: CssNode, url: string): void {
+  node.token = urlToken(url);
+  delete node.children;
+  delete node.close;
+}
+
+const isFunction = (node: CssNode, ...names: string[]) =>
+  node.token.type === "function" && names.includes(node.token.value.toLowerCase());
+
+const significant = (nodes: CssNode[]) =>
+  nodes.filter((node) => node.token.type !== "whitespace" && node.token.type !== "comment");
+
+// URL of a url token, or of url("...") / src("...") with a string argument
+function urlOf(node: CssNode): string | null {
+  if (node.token.type === "url") {
+    return node.token.value;
+  }
+  if (isFunction(node, "url", "src")) {
+    const [argument] = significant(node.children ?? []);
+    return argument?.token.type === "string" ? argument.token.value : null;
+  }
+  return null;
+}
+
+function splitOnCommas(nodes: CssNode[]): CssNode[][] {
+  const parts: CssNode[][] = [[]];
+  for (const node of nodes) {
+    if (node.token.type === ",") {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(node);
+    }
+  }
+  return parts;
+}
+
+export interface CssUrlReference {
+  url: string;
+  rewrite(target: string): void;
+}
+
+export interface CssImport extends CssUrlReference {
+  conditions: string; // layer(), supports() and media query after the URL, kept as written
+}
+
+export interface CssImageSet {
+  candidates: ImageCandidate[]; // URL candidates; gradients and other images are left alone
+  rewrite(candidates: ImageCandidate[]): void;
+}
+
+/**
+ * A parsed stylesheet, <style> block or style attribute. References to
+ * other files can be read and rewritten in place; everything else is
+ * serialized back exactly as it was written.
+ */
+export class Stylesheet {
+  readonly imports: CssImport[] = [];
+  readonly urls: CssUrlReference[] = []; // url() / src() outside @import and image-set()
+  readonly imageSets: CssImageSet[] = [];
+  private nodes: CssNode[];
+
+  constructor(css: string) {
+    this.nodes = parseComponents(tokenize(css));
+    this.collect(this.nodes, true);
+  }
+
+  toString(): string {
+    return serialize(this.nodes);
+  }
+
+  private collect(nodes: CssNode[], topLevel: boolean): void {
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+
+      if (node.token.type === "at-keyword") {
+        const name = node.token.value.toLowerCase();
+        // The prelude runs up to the `;` (statement) or `{}` block (nested rule)
+        let end = i + 1;
+        while (end < nodes.length && nodes[end].token.type !== ";" && nodes[end].token.type !== "{") {
+          end++;
+        }
+        const prelude = nodes.slice(i + 1, end);
+
+        if (name === "import" && topLevel) {
+          this.collectImport(prelude);
+          i = end - 1;
+          continue;
+        }
+        if (name === "namespace") {
+          // A namespace URL is an identifier, not something to download
+          i = end - 1;
+          continue;
+        }
+        continue;
+      }
+
+      if (isFunction(node, "image-set", "-webkit-image-set")) {
+        this.collectImageSet(node);
+        continue;
+      }
+
+      const url = urlOf(node);
+      if (url !== null) {
+        this.urls.push({ url, rewrite: (target) => replaceWithUrl(node, target) });
+        continue;
+      }
+
+      if (node.children) {
+        this.collect(node.children, false);
+      }
+    }
+  }
+
+  private collectImport(prelude: CssNode[]): void {
+    const index = prelude.findIndex((node) => node.token.type !== "whitespace" && node.token.type !== "comment");
+    const target = prelude[index];
+    if (!target) {
+      return;
+    }
+
+    const url = target.token.type === "string" ? target.token.value : urlOf(target);
+    if (url === null) {
+      return;
+    }
+
+    this.imports.push({
+      url,
+      conditions: serialize(prelude.slice(index + 1)).trim(),
+      rewrite: (rewritten) => replaceWithUrl(target, rewritten),
+    });
+  }
+
+  private collectImageSet(node: CssNode): void {
+    const urlArguments: Array<{ url: string; descriptor: string }> = [];
+    const otherArguments: CssNode[][] = [];
+
+    for (const argument of splitOnCommas(node.children ?? [])) {
+      const [first, ...rest] = significant(argument);
+      const url = first ? (first.token.type === "string" ? first.token.value : urlOf(first)) : null;
+      if (url === null) {
+        if (first) {
+          otherArguments.push(argument);
+        }
+        continue;
+      }
+      const descriptorStart = argument.indexOf(first) + 1;
+      urlArguments.push({ url, descriptor: rest.length > 0 ? serialize(argument.slice(descriptorStart)).trim() : "" });
+    }
+
+    if (urlArguments.length === 0) {
+      return;
+    }
+
+    this.imageSets.push({
+      candidates: urlArguments,
+      rewrite: (candidates) => {
+        const parts = candidates.map(({ url, descriptor }) => urlToken(url).raw + (descriptor ? ` ${descriptor}` : ""));
+        const others = otherArguments.map((argument) => serialize(argument).trim());
+        // Re-tokenize so the new arguments are real nodes for a later serialize
+        node.children = parseComponents(tokenize([...parts, ...others].join(", ")));
+      },
+    });
+  }
+}
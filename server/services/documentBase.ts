@@ -0,0 +1,90 @@
+import type { CheerioAPI } from "cheerio";
+import { URL } from "url";
+import { SRCSET_ATTRIBUTES, parseSrcset, serializeSrcset } from "./responsiveImages";
+
+// Attributes holding a single URL that either gets downloaded or has to keep working from the clone
+const URL_ATTRIBUTES: Array<[selector: string, attribute: string]> = [
+  ["a[href], area[href], link[href]", "href"],
+  ["form[action]", "action"],
+  ["script[src], img[src], iframe[src], embed[src], video[src], audio[src], source[src], track[src]", "src"],
+  ["img[data-src]", "data-src"],
+  ["video[poster]", "poster"],
+];
+
+/**
+ * The URL a page's relative references resolve against: the first
+ * `<base href>`, resolved against the page URL, or the page URL itself.
+ */
+export function documentBase($: CheerioAPI, pageUrl: string): string {
+  const href = $("base[href]").first().attr("href");
+  if (!href) {
+    return pageUrl;
+  }
+  try {
+    const base = new URL(href, pageUrl);
+    return base.protocol === "http:" || base.protocol === "https:" ? base.href : pageUrl;
+  } catch (error) {
+    return pageUrl;
+  }
+}
+
+function absolutize(value: string, baseUrl: string, hasBase: boolean): string {
+  const trimmed = value.trim();
+  // Protocol-relative URLs would resolve to file:// in a clone opened from disk;
+  // other relative URLs only change meaning once <base> is gone
+  if (!trimmed.startsWith("//") && (!hasBase || /^([a-z][a-z0-9+.-]*:|#)/i.test(trimmed) || trimmed === "")) {
+    return value;
+  }
+  try {
+    return new URL(trimmed, baseUrl).href;
+  } catch (error) {
+    return value;
+  }
+}
+
+/**
+ * Make the page independent of `<base href>` before it is rewritten: URLs
+ * in href, src, action, poster and srcset attributes that depend on the
+ * base are made absolute, protocol-relative URLs get the scheme, and the
+ * base's href is dropped (the element too, unless it also sets a target).
+ * Download rewriting later replaces absolute URLs with local paths, and the
+ * rest keep pointing at the live site, the same as they did through <base>.
+ * Fragment-only links are left alone so they stay in-page.
+ */
+export function detachDocumentBase($: CheerioAPI, pageUrl: string): string {
+  const baseUrl = documentBase($, pageUrl);
+  const hasBase = $("base[href]").length > 0;
+
+  for (const [selector, attribute] of URL_ATTRIBUTES) {
+    $(selector).each((_, el) => {
+      const value = $(el).attr(attribute)!;
+      const resolved = absolutize(value, baseUrl, hasBase);
+      if (resolved !== value) {
+        $(el).attr(attribute, resolved);
+      }
+    });
+  }
+
+  $("img, source, link").each((_, el) => {
+    for (const attr of SRCSET_ATTRIBUTES) {
+      const srcset = $(el).attr(attr);
+      if (srcset) {
+        const candidates = parseSrcset(srcset);
+        const resolved = candidates.map((candidate) => ({ ...candidate, url: absolutize(candidate.url, baseUrl, hasBase) }));
+        if (resolved.some((candidate, index) => candidate.url !== candidates[index].url)) {
+          $(el).attr(attr, serializeSrcset(resolved));
+        }
+      }
+    }
+  });
+
+  $("base[href]").each((_, el) => {
+    if ($(el).attr("target")) {
+      $(el).removeAttr("href");
+    } else {
+      $(el).remove();
+    }
+  });
+
+  return baseUrl;
+}
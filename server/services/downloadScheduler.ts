@@ -0,0 +1,116 @@
+import { URL } from "url";
+import type { CloneSignal } from "./cloneSignal";
+
+// Lower runs first: stylesheets can pull in more assets and block rendering,
+// images are the bulk of the bytes and can wait, video and audio even longer
+export const DOWNLOAD_PRIORITY = {
+  css: 0,
+  font: 1,
+  icon: 2,
+  manifest: 2,
+  js: 3,
+  image: 4,
+  media: 5,
+} as const;
+
+export type DownloadPriority = typeof DOWNLOAD_PRIORITY[keyof typeof DOWNLOAD_PRIORITY];
+
+export class DownloadCancelledError extends Error {
+  constructor(url: string) {
+    super(`Download cancelled: ${url}`);
+    this.name = "DownloadCancelledError";
+  }
+}
+
+interface QueuedDownload {
+  url: string;
+  host: string;
+  priority: number;
+  order: number;
+  run: () => Promise<void>;
+  cancel: () => void;
+}
+
+/**
+ * Bounded worker pool for resource downloads. At most `maxConcurrency` tasks
+ * run at once and at most `maxPerHost` against any one host; among the tasks
+ * that may start, the highest priority (then oldest) goes first. Once the
+ * signal stops, queued tasks are rejected with DownloadCancelledError.
+ */
+export class DownloadScheduler {
+  private queue: QueuedDownload[] = [];
+  private active = 0;
+  private activePerHost = new Map<string, number>();
+  private order = 0;
+  private maxConcurrency: number;
+  private maxPerHost: number;
+
+  constructor(maxConcurrency: number, maxPerHost: number, private signal: CloneSignal) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+    this.maxPerHost = Math.max(1, maxPerHost);
+    signal.onStop(() => {
+      for (const download of this.queue.splice(0)) {
+        download.cancel();
+      }
+    });
+  }
+
+  schedule<T>(url: string, priority: DownloadPriority, task: () => Promise<T>): Promise<T> {
+    if (this.signal.stopped) {
+      return Promise.reject(new DownloadCancelledError(url));
+    }
+
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch (error) {
+      host = "";
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        url,
+        host,
+        priority,
+        order: this.order++,
+        run: () => Promise.resolve().then(task).then(resolve, reject),
+        cancel: () => reject(new DownloadCancelledError(url)),
+      });
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    while (this.active < this.maxConcurrency && !this.signal.stopped) {
+      const index = this.nextRunnable();
+      if (index === -1) {
+        return;
+      }
+
+      const [download] = this.queue.splice(index, 1);
+      this.active++;
+      this.activePerHost.set(download.host, (this.activePerHost.get(download.host) ?? 0) + 1);
+
+      download.run().finally(() => {
+        this.active--;
+        this.activePerHost.set(download.host, (this.activePerHost.get(download.host) ?? 1) - 1);
+        this.pump();
+      });
+    }
+  }
+
+  private nextRunnable(): number {
+    let best = -1;
+    for (let i = 0; i < this.queue.length; i++) {
+      const download = this.queue[i];
+      if ((this.activePerHost.get(download.host) ?? 0) >= this.maxPerHost) {
+        continue;
+      }
+      const current = best === -1 ? null : this.queue[best];
+      if (!current || download.priority < current.priority || (download.priority === current.priority && download.order < current.order)) {
+        best = i;
+      }
+    }
+    return best;
+  }
+}
@@ -1,6 +1,6 @@
 import fs from "fs/promises";
 import path from "path";
-import { URL } from "url";
+import { UnsafePathError, isSafeProjectId, resolveWithin } from "./safePath";
 
 export class FileManager {
   private baseDir: string;
@@ -9,8 +9,36 @@ export class FileManager {
     this.baseDir = baseDir;
   }
 
+  // Folder holding a project's files; ids come from requests, so anything but a plain name is rejected
+  getProjectDir(projectId: string): string {
+    if (!isSafeProjectId(projectId)) {
+      throw new UnsafePathError("Invalid project id", projectId);
+    }
+    return path.join(this.baseDir, projectId);
+  }
+
+  // A project's HAR archive is kept beside its folder so it isn't served, listed or zipped with the clone
+  getHarPath(projectId: string): string {
+    return `${this.getProjectDir(projectId)}.har`;
+  }
+
+  async saveHar(projectId: string, content: string | Buffer): Promise<void> {
+    const harPath = this.getHarPath(projectId);
+    await fs.mkdir(path.dirname(harPath), { recursive: true });
+    await fs.writeFile(harPath, content);
+  }
+
+  async hasHar(projectId: string): Promise<boolean> {
+    try {
+      await fs.access(this.getHarPath(projectId));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
   async ensureProjectDir(projectId: string): Promise<string> {
-    const projectDir = path.join(this.baseDir, projectId);
+    const projectDir = this.getProjectDir(projectId);
     await fs.mkdir(projectDir, { recursive: true });
     return projectDir;
   }
@@ -21,7 +49,7 @@ export class FileManager {
     content: string | Buffer
   ): Promise<void> {
     const projectDir = await this.ensureProjectDir(projectId);
-    const fullPath = path.join(projectDir, filePath);
+    const fullPath = resolveWithin(projectDir, filePath);
     const dir = path.dirname(fullPath);
 
     await fs.mkdir(dir, { recursive: true });
@@ -30,7 +58,7 @@ export class FileManager {
 
   async readFile(projectId: string, filePath: string): Promise<string> {
     const projectDir = await this.ensureProjectDir(projectId);
-    const fullPath = path.join(projectDir, filePath);
+    const fullPath = resolveWithin(projectDir, filePath);
     return await fs.readFile(fullPath, "utf-8");
   }
 
@@ -63,38 +91,15 @@ export class FileManager {
   }
 
   async deleteProject(projectId: string): Promise<void> {
-    const projectDir = path.join(this.baseDir, projectId);
+    const projectDir = this.getProjectDir(projectId);
     try {
       await fs.rm(projectDir, { recursive: true, force: true });
+      await fs.rm(this.getHarPath(projectId), { force: true });
     } catch (error) {
       // Directory might not exist
     }
   }
 
-  getLocalPath(url: string, baseUrl: string): string {
-    try {
-      const urlObj = new URL(url, baseUrl);
-      let pathname = urlObj.pathname;
-
-      // Handle root path
-      if (pathname === "/" || pathname === "") {
-        return "index.html";
-      }
-
-      // Remove leading slash
-      pathname = pathname.replace(/^\//, "");
-
-      // If no extension, treat as directory and add index.html
-      if (!path.extname(pathname)) {
-        pathname = path.join(pathname, "index.html");
-      }
-
-      return pathname;
-    } catch (error) {
-      return "index.html";
-    }
-  }
-
   getFileType(filePath: string): string {
     const ext = path.extname(filePath).toLowerCase();
     const typeMap: { [key: string]: string } = {
@@ -102,19 +107,37 @@ export class FileManager {
       ".htm": "html",
       ".css": "css",
       ".js": "js",
-      ".json": "js",
+      ".mjs": "js",
+      ".json": "json",
+      ".webmanifest": "json",
       ".png": "image",
       ".jpg": "image",
       ".jpeg": "image",
       ".gif": "image",
       ".svg": "image",
       ".webp": "image",
+      ".avif": "image",
       ".ico": "image",
       ".woff": "font",
       ".woff2": "font",
       ".ttf": "font",
       ".otf": "font",
       ".eot": "font",
+      ".mp4": "media",
+      ".m4v": "media",
+      ".webm": "media",
+      ".ogv": "media",
+      ".mov": "media",
+      ".mp3": "media",
+      ".m4a": "media",
+      ".ogg": "media",
+      ".oga": "media",
+      ".opus": "media",
+      ".wav": "media",
+      ".aac": "media",
+      ".flac": "media",
+      ".vtt": "media",
+      ".srt": "media",
     };
 
     return typeMap[ext] || "other";
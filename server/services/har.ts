@@ -0,0 +1,234 @@
+import fs from "fs/promises";
+import { URL } from "url";
+import { z } from "zod";
+import { FetchError, type FetchedResource } from "./resourceFetcher";
+
+const MAX_REDIRECTS = 10;
+// Left out of recorded archives, which can be downloaded; replay doesn't need them
+const CREDENTIAL_HEADERS = new Set(["authorization", "proxy-authorization", "cookie", "set-cookie"]);
+
+// The parts of a HAR 1.2 file replay reads; everything else is kept as is
+const harEntrySchema = z.object({
+  request: z.object({ method: z.string(), url: z.string() }).passthrough(),
+  response: z.object({
+    status: z.number(),
+    redirectURL: z.string().optional(),
+    content: z.object({
+      mimeType: z.string().optional(),
+      text: z.string().optional(),
+      encoding: z.string().optional(),
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+
+export const harSchema = z.object({
+  log: z.object({
+    version: z.string().default("1.2"),
+    creator: z.object({ name: z.string(), version: z.string() }).passthrough().default({ name: "SiteSnapshot", version: "1.0" }),
+    pages: z.array(z.object({}).passthrough()).optional(),
+    entries: z.array(harEntrySchema),
+  }).passthrough(),
+});
+
+export type Har = z.infer<typeof harSchema>;
+export type HarEntry = z.infer<typeof harEntrySchema>;
+
+function emptyHar(): Har {
+  return { log: { version: "1.2", creator: { name: "SiteSnapshot", version: "1.0" }, pages: [], entries: [] } };
+}
+
+function withoutHash(url: string): string {
+  const urlObj = new URL(url);
+  urlObj.hash = "";
+  return urlObj.href;
+}
+
+function entryBody(entry: HarEntry): Buffer | null {
+  const { text, encoding } = entry.response.content;
+  if (text === undefined) {
+    return null;
+  }
+  return Buffer.from(text, encoding === "base64" ? "base64" : "utf-8");
+}
+
+function contentTypeOf(entry: HarEntry): string | null {
+  const headers = (entry.response.headers ?? []) as Array<{ name: string; value: string }>;
+  const header = headers.find((candidate) => candidate.name.toLowerCase() === "content-type");
+  return header?.value ?? entry.response.content.mimeType ?? null;
+}
+
+// `secretHeaders` are lowercased names of extra request headers to leave out
+function withoutCredentials(entry: HarEntry, secretHeaders: Set<string>): HarEntry {
+  const strip = (headers: unknown, isSecret: (name: string) => boolean) => Array.isArray(headers)
+    ? headers.filter((header) => !isSecret(String(header?.name).toLowerCase()))
+    : headers;
+  const isCredential = (name: string) => CREDENTIAL_HEADERS.has(name);
+  return {
+    ...entry,
+    request: {
+      ...entry.request,
+      headers: strip(entry.request.headers, (name) => isCredential(name) || secretHeaders.has(name)),
+      cookies: [],
+    },
+    response: { ...entry.response, headers: strip(entry.response.headers, isCredential), cookies: [] },
+  };
+}
+
+/**
+ * Page the replay starts from: the first HTML document fetched with GET,
+ * or the first request when nothing in the archive looks like a page.
+ */
+export function harStartUrl(har: Har): string | null {
+  const entries = har.log.entries.filter((entry) => entry.request.method === "GET" && /^https?:/i.test(entry.request.url));
+  const page = entries.find((entry) => entry.response.status === 200 && /html/i.test(contentTypeOf(entry) ?? ""));
+  return (page ?? entries[0])?.request.url ?? null;
+}
+
+/**
+ * Collects a clone's traffic into one HAR file: the archive Playwright
+ * writes for each rendered page, plus the resources the fetcher downloaded
+ * itself. Bodies are embedded so the file can be replayed without network
+ * access. Cookies, the Authorization and Proxy-Authorization headers, and
+ * the request headers named in `secretHeaders` (an auth profile's custom
+ * headers) are dropped; other headers are kept as recorded. An existing
+ * file is appended to, so a resumed clone keeps its earlier pages.
+ */
+export class HarRecorder {
+  private constructor(private filePath: string, private har: Har, private secretHeaders: Set<string>) {}
+
+  static async open(filePath: string, secretHeaders: string[] = []): Promise<HarRecorder> {
+    const secret = new Set(secretHeaders.map((name) => name.toLowerCase()));
+    try {
+      return new HarRecorder(filePath, harSchema.parse(JSON.parse(await fs.readFile(filePath, "utf-8"))), secret);
+    } catch (error) {
+      return new HarRecorder(filePath, emptyHar(), secret);
+    }
+  }
+
+  // Merge the archive Playwright wrote for one page, then remove it
+  async addBrowserHar(pageHarPath: string): Promise<void> {
+    try {
+      const page = harSchema.parse(JSON.parse(await fs.readFile(pageHarPath, "utf-8")));
+      this.har.log.pages = [...(this.har.log.pages ?? []), ...(page.log.pages ?? [])];
+      this.har.log.entries.push(...page.log.entries.map((entry) => withoutCredentials(entry, this.secretHeaders)));
+    } finally {
+      await fs.rm(pageHarPath, { force: true });
+    }
+  }
+
+  addResponse(url: string, resource: FetchedResource): void {
+    const headers = resource.contentType ? [{ name: "Content-Type", value: resource.contentType }] : [];
+    this.har.log.entries.push({
+      startedDateTime: new Date().toISOString(),
+      time: 0,
+      request: { method: "GET", url, httpVersion: "HTTP/1.1", headers: [], queryString: [], cookies: [], headersSize: -1, bodySize: 0 },
+      response: {
+        status: resource.status,
+        statusText: "",
+        httpVersion: "HTTP/1.1",
+        headers,
+        cookies: [],
+        content: {
+          size: resource.body.length,
+          mimeType: resource.contentType ?? "application/octet-stream",
+          text: resource.body.toString("base64"),
+          encoding: "base64",
+        },
+        redirectURL: "",
+        headersSize: -1,
+        bodySize: resource.body.length,
+      },
+      cache: {},
+      timings: { send: 0, wait: 0, receive: 0 },
+    });
+  }
+
+  async save(): Promise<void> {
+    await fs.writeFile(this.filePath, JSON.stringify(this.har));
+  }
+}
+
+/**
+ * A HAR file opened for replay: answers requests from its GET entries and
+ * never touches the network. When a URL appears more than once the last
+ * complete response wins, and redirects recorded in the archive are
+ * followed.
+ */
+export class HarArchive {
+  private entries = new Map<string, HarEntry>(); // URL without fragment -> entry
+
+  constructor(har: Har) {
+    for (const entry of har.log.entries) {
+      if (entry.request.method !== "GET" || !/^https?:/i.test(entry.request.url)) {
+        continue;
+      }
+      const key = withoutHash(entry.request.url);
+      const existing = this.entries.get(key);
+      // Don't let an aborted or bodiless repeat replace a good response
+      if (!existing || entry.response.status !== 0 && (entryBody(entry) !== null || entryBody(existing) === null)) {
+        this.entries.set(key, entry);
+      }
+    }
+  }
+
+  static async load(filePath: string): Promise<HarArchive> {
+    return new HarArchive(harSchema.parse(JSON.parse(await fs.readFile(filePath, "utf-8"))));
+  }
+
+  /**
+   * The recorded response for `url`, after recorded redirects. Throws a
+   * FetchError, as the fetcher would, when the archive has no usable
+   * response.
+   */
+  resource(url: string, maxResponseBytes: number): FetchedResource {
+    const entry = this.lookup(url);
+    if (!entry) {
+      throw new FetchError("Not in the HAR archive", url, null, 1);
+    }
+
+    const { status } = entry.response;
+    const body = entryBody(entry);
+    if (status < 200 || status >= 300) {
+      throw new FetchError(`HTTP ${status}`, url, status, 1);
+    }
+    if (body === null) {
+      throw new FetchError("HAR entry has no response body", url, status, 1);
+    }
+    if (body.length > maxResponseBytes) {
+      throw new FetchError(`Response exceeds the ${maxResponseBytes} byte limit`, url, status, 1);
+    }
+    return { body, status, contentType: contentTypeOf(entry), attempts: 1 };
+  }
+
+  // fetch() stand-in for robots.txt and sitemaps; URLs that weren't recorded get a 404
+  async fetch(url: string): Promise<Response> {
+    const entry = this.lookup(url);
+    const body = entry ? entryBody(entry) : null;
+    if (!entry || body === null) {
+      return new Response(null, { status: 404 });
+    }
+    const contentType = contentTypeOf(entry);
+    return new Response(body, {
+      status: entry.response.status,
+      headers: contentType ? { "Content-Type": contentType } : {},
+    });
+  }
+
+  private lookup(url: string): HarEntry | undefined {
+    let current = url;
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      let entry: HarEntry | undefined;
+      try {
+        entry = this.entries.get(withoutHash(current));
+      } catch (error) {
+        return undefined;
+      }
+      const { status, redirectURL } = entry?.response ?? {};
+      if (!entry || status === undefined || status < 300 || status >= 400 || !redirectURL) {
+        return entry;
+      }
+      current = new URL(redirectURL, current).href;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,71 @@
+import { URL } from "url";
+
+interface HostState {
+  active: number;
+  nextStart: number;
+  minDelayMs: number;
+  waiters: Array<() => void>;
+}
+
+/**
+ * Per-host request gate: at most `maxConcurrency` requests in flight to a
+ * host, and consecutive requests to it started at least `minDelayMs` apart.
+ */
+export class HostThrottle {
+  private hosts = new Map<string, HostState>();
+  private minDelayMs: number;
+  private maxConcurrency: number;
+
+  constructor(minDelayMs: number = 0, maxConcurrency: number = 1) {
+    this.minDelayMs = Math.max(0, minDelayMs);
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  /**
+   * Raise the minimum delay for one host (e.g. from robots.txt Crawl-delay).
+   * Never lowers the configured delay.
+   */
+  setMinDelay(host: string, minDelayMs: number): void {
+    const state = this.getState(host);
+    state.minDelayMs = Math.max(state.minDelayMs, minDelayMs);
+  }
+
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const state = this.getState(new URL(url).host);
+    await this.acquire(state);
+    try {
+      return await task();
+    } finally {
+      this.release(state);
+    }
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextStart: 0, minDelayMs: this.minDelayMs, waiters: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private async acquire(state: HostState): Promise<void> {
+    while (state.active >= this.maxConcurrency) {
+      await new Promise<void>((resolve) => state.waiters.push(resolve));
+    }
+    state.active++;
+
+    // Reserve the next start slot before sleeping so queued requests space out
+    const now = Date.now();
+    const start = Math.max(now, state.nextStart);
+    state.nextStart = start + state.minDelayMs;
+    if (start > now) {
+      await new Promise((resolve) => setTimeout(resolve, start - now));
+    }
+  }
+
+  private release(state: HostState): void {
+    state.active--;
+    state.waiters.shift()?.();
+  }
+}
@@ -0,0 +1,353 @@
+export type JsTokenType =
+  | "whitespace"
+  | "comment"
+  | "string"
+  | "template" // a whole template literal, or the piece up to or after a ${ } substitution
+  | "regex"
+  | "identifier"
+  | "number"
+  | "punctuator";
+
+export interface JsToken {
+  type: JsTokenType;
+  raw: string; // exactly as written, so joining the tokens gives back the source
+  value: string; // unescaped text of a string or substitution-free template, otherwise the raw text
+}
+
+// Keywords after which a `/` starts a regular expression rather than a division
+const REGEX_AFTER_KEYWORDS = new Set([
+  "return", "typeof", "instanceof", "in", "of", "new", "delete", "void", "throw",
+  "case", "do", "else", "yield", "await",
+]);
+
+const isIdentifierStart = (c: string | undefined) => c !== undefined && (/[A-Za-z_$\\]/.test(c) || c.charCodeAt(0) >= 0x80);
+const isIdentifierPart = (c: string | undefined) => isIdentifierStart(c) || (c !== undefined && c >= "0" && c <= "9");
+const isLineTerminator = (c: string | undefined) => c === "\n" || c === "\r" || c === "\u2028" || c === "\u2029";
+
+function unescape(text: string): string {
+  if (!text.includes("\\")) {
+    return text;
+  }
+  return text.replace(/\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|\r\n|[\s\S])/g, (_, escape: string) => {
+    if (escape[0] === "u" || escape[0] === "x") {
+      const hex = escape.replace(/^[ux]\{?|\}$/g, "");
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+    if (isLineTerminator(escape[0])) {
+      return ""; // line continuation
+    }
+    return ({ n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", v: "\v", "0": "\0" } as Record<string, string>)[escape] ?? escape;
+  });
+}
+
+/**
+ * A lexer that knows just enough JavaScript to tell code from strings,
+ * templates, regular expressions and comments. Every character ends up in
+ * exactly one token's `raw`. It doesn't validate anything: malformed input
+ * still produces tokens.
+ */
+class Lexer {
+  private position = 0;
+  private previous: JsToken | null = null; // last token that isn't whitespace or a comment
+  // Open `{` count per template substitution we're inside, innermost last
+  private substitutions: number[] = [];
+
+  constructor(private source: string) {}
+
+  tokenize(): JsToken[] {
+    const tokens: JsToken[] = [];
+    while (this.position < this.source.length) {
+      const start = this.position;
+      const { type, value } = this.next();
+      const raw = this.source.slice(start, this.position);
+      const token = { type, raw, value: value ?? raw };
+      tokens.push(token);
+      if (type !== "whitespace" && type !== "comment") {
+        this.previous = token;
+      }
+    }
+    return tokens;
+  }
+
+  private peek(offset = 0): string | undefined {
+    return this.source[this.position + offset];
+  }
+
+  private next(): { type: JsTokenType; value?: string } {
+    const c = this.peek();
+
+    if (/\s/.test(c!)) {
+      while (this.position < this.source.length && /\s/.test(this.peek()!)) {
+        this.position++;
+      }
+      return { type: "whitespace" };
+    }
+
+    if (c === "/" && this.peek(1) === "/") {
+      while (this.position < this.source.length && !isLineTerminator(this.peek())) {
+        this.position++;
+      }
+      return { type: "comment" };
+    }
+    if (c === "/" && this.peek(1) === "*") {
+      const end = this.source.indexOf("*/", this.position + 2);
+      this.position = end === -1 ? this.source.length : end + 2;
+      return { type: "comment" };
+    }
+
+    if (c === "'" || c === '"') {
+      return this.string(c);
+    }
+    if (c === "`") {
+      this.position++;
+      return this.template();
+    }
+    if (c === "}" && this.substitutions.length > 0 && this.substitutions[this.substitutions.length - 1] === 0) {
+      // End of a ${ } substitution: the template continues
+      this.substitutions.pop();
+      this.position++;
+      return this.template();
+    }
+    if (c === "/" && this.regexAllowed()) {
+      return this.regex();
+    }
+
+    if (isIdentifierStart(c) || (c === "#" && isIdentifierStart(this.peek(1)))) {
+      this.position++;
+      while (this.position < this.source.length && (isIdentifierPart(this.peek()) || this.peek() === "\\")) {
+        this.position++;
+      }
+      return { type: "identifier" };
+    }
+    if (/[0-9]/.test(c!) || (c === "." && /[0-9]/.test(this.peek(1) ?? ""))) {
+      const hex = /^0[xX]/.test(this.source.slice(this.position, this.position + 2));
+      while (this.position < this.source.length && /[0-9A-Za-z_.]/.test(this.peek()!)) {
+        const digit = this.peek()!;
+        this.position++;
+        // Exponent signs belong to the number, e.g. 1e-7
+        if (!hex && /[eE]/.test(digit) && /[+-]/.test(this.peek() ?? "")) {
+          this.position++;
+        }
+      }
+      return { type: "number" };
+    }
+
+    if (c === "{" && this.substitutions.length > 0) {
+      this.substitutions[this.substitutions.length - 1]++;
+    } else if (c === "}" && this.substitutions.length > 0) {
+      this.substitutions[this.substitutions.length - 1]--;
+    }
+    // Punctuators are only needed one character at a time, except spread dots so
+    // `...import(x)` isn't mistaken for a member access
+    this.position += c === "." && this.peek(1) === "." && this.peek(2) === "." ? 3 : 1;
+    return { type: "punctuator" };
+  }
+
+  private string(quote: string): { type: JsTokenType; value: string } {
+    const start = ++this.position;
+    while (this.position < this.source.length) {
+      const c = this.peek();
+      if (c === "\\") {
+        this.position += 2;
+      } else if (c === quote || c === "\n") {
+        break;
+      } else {
+        this.position++;
+      }
+    }
+    const value = unescape(this.source.slice(start, Math.min(this.position, this.source.length)));
+    if (this.peek() === quote) {
+      this.position++;
+    }
+    return { type: "string", value };
+  }
+
+  // Reads template text after a ` or the } closing a substitution, up to the closing ` or the next ${
+  private template(): { type: JsTokenType; value?: string } {
+    const start = this.position;
+    const opensWithBacktick = this.source[start - 1] === "`";
+    while (this.position < this.source.length) {
+      const c = this.peek();
+      if (c === "\\") {
+        this.position += 2;
+      } else if (c === "`") {
+        const text = this.source.slice(start, this.position);
+        this.position++;
+        return { type: "template", value: opensWithBacktick ? unescape(text) : undefined };
+      } else if (c === "$" && this.peek(1) === "{") {
+        this.position += 2;
+        this.substitutions.push(0);
+        return { type: "template" };
+      } else {
+        this.position++;
+      }
+    }
+    return { type: "template" };
+  }
+
+  private regexAllowed(): boolean {
+    const previous = this.previous;
+    if (!previous) {
+      return true;
+    }
+    if (previous.type === "identifier") {
+      return REGEX_AFTER_KEYWORDS.has(previous.raw);
+    }
+    if (previous.type === "punctuator") {
+      return ![")", "]", "}"].includes(previous.raw);
+    }
+    return previous.type === "template" && previous.raw.endsWith("${");
+  }
+
+  private regex(): { type: JsTokenType } {
+    this.position++;
+    let inClass = false;
+    while (this.position < this.source.length && !isLineTerminator(this.peek())) {
+      const c = this.peek();
+      if (c === "\\") {
+        this.position += 2;
+        continue;
+      }
+      this.position++;
+      if (c === "[") {
+        inClass = true;
+      } else if (c === "]") {
+        inClass = false;
+      } else if (c === "/" && !inClass) {
+        break;
+      }
+    }
+    while (this.position < this.source.length && isIdentifierPart(this.peek())) {
+      this.position++;
+    }
+    return { type: "regex" };
+  }
+}
+
+export function tokenize(source: string): JsToken[] {
+  return new Lexer(source).tokenize();
+}
+
+export type ScriptReferenceType =
+  | "import" // import ... from "x", import "x", export ... from "x"
+  | "dynamic-import" // import("x")
+  | "url" // new URL("x", import.meta.url)
+  | "source-map"; // //# sourceMappingURL=x
+
+export interface ScriptReference {
+  type: ScriptReferenceType;
+  specifier: string;
+  rewrite(target: string): void;
+}
+
+// Relative and absolute URLs; bare specifiers like "react" are resolved by an import map, not by URL
+export function isUrlSpecifier(specifier: string): boolean {
+  return /^(\.{0,2}\/|https?:)/i.test(specifier);
+}
+
+function quoted(token: JsToken, text: string): string {
+  const quote = token.raw[0] === "'" || token.raw[0] === "`" ? token.raw[0] : '"';
+  return quote + text.replace(/[\\\n\r]/g, (c) => (c === "\\" ? "\\\\" : c === "\n" ? "\\n" : "\\r")).split(quote).join(`\\${quote}`) + quote;
+}
+
+/**
+ * A parsed script. Module specifiers and other URLs written as string
+ * literals can be read and rewritten in place; everything else is joined back
+ * exactly as it was written. Specifiers built at runtime (template
+ * substitutions, variables) are out of reach and left alone.
+ */
+export class ModuleScript {
+  readonly references: ScriptReference[] = [];
+  // Whether the source uses syntax only a module can: import/export statements or import.meta
+  isModule = false;
+  private tokens: JsToken[];
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+    this.collect();
+  }
+
+  toString(): string {
+    return this.tokens.map((token) => token.raw).join("");
+  }
+
+  private collect(): void {
+    const code = this.tokens
+      .map((token, index) => ({ token, index }))
+      .filter(({ token }) => token.type !== "whitespace" && token.type !== "comment");
+    const text = (at: number) => code[at]?.token.raw;
+    // A string, or a template literal without substitutions
+    const isLiteral = (at: number) => {
+      const token = code[at]?.token;
+      return token?.type === "string" || (token?.type === "template" && token.raw.length > 1 && /^`[\s\S]*`$/.test(token.raw));
+    };
+    // What follows `import` or `export` in a statement, as opposed to e.g. an object key
+    const startsDeclaration = (at: number) => code[at]?.token.type === "identifier" || text(at) === "{" || text(at) === "*";
+    const add = (type: ScriptReferenceType, at: number) => {
+      const { token, index } = code[at];
+      this.references.push({
+        type,
+        specifier: token.value,
+        rewrite: (target) => {
+          this.tokens[index] = { ...token, raw: quoted(token, target), value: target };
+        },
+      });
+    };
+
+    // Set by an import/export statement until its `from "x"` or the end of the statement
+    let inStatement = false;
+
+    for (let i = 0; i < code.length; i++) {
+      const token = code[i].token;
+      const afterDot = text(i - 1) === ".";
+
+      if (token.type === "punctuator" && token.raw === ";") {
+        inStatement = false;
+      } else if (token.type === "identifier" && token.raw === "import" && !afterDot) {
+        if (text(i + 1) === "(" && isLiteral(i + 2) && (text(i + 3) === ")" || text(i + 3) === ",")) {
+          add("dynamic-import", i + 2);
+        } else if (code[i + 1]?.token.type === "string") {
+          add("import", i + 1);
+          this.isModule = true;
+        } else if (text(i + 1) === ".") {
+          this.isModule = true;
+        } else if (text(i + 1) !== "(") {
+          inStatement = true;
+          this.isModule ||= startsDeclaration(i + 1);
+        }
+      } else if (token.type === "identifier" && token.raw === "export" && !afterDot) {
+        inStatement = true;
+        this.isModule ||= startsDeclaration(i + 1);
+      } else if (inStatement && token.type === "identifier" && token.raw === "from" && code[i + 1]?.token.type === "string") {
+        add("import", i + 1);
+        inStatement = false;
+      } else if (
+        token.type === "identifier" && token.raw === "new" &&
+        text(i + 1) === "URL" && text(i + 2) === "(" && isLiteral(i + 3) && text(i + 4) === "," &&
+        text(i + 5) === "import" && text(i + 6) === "." && text(i + 7) === "meta" && text(i + 8) === "." && text(i + 9) === "url"
+      ) {
+        add("url", i + 3);
+      }
+    }
+
+    // Only the last source map comment counts
+    for (let index = this.tokens.length - 1; index >= 0; index--) {
+      const token = this.tokens[index];
+      const match = token.type === "comment" ? token.raw.match(/^\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/) : null;
+      if (match) {
+        const prefix = token.raw.slice(0, token.raw.lastIndexOf(match[1]));
+        this.references.push({
+          type: "source-map",
+          specifier: match[1],
+          rewrite: (target) => {
+            this.tokens[index] = { ...token, raw: `${prefix}${target}`, value: `${prefix}${target}` };
+          },
+        });
+        break;
+      }
+      if (token.type !== "whitespace" && token.type !== "comment") {
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { createHash } from "crypto";
+import path from "path";
+import { URL } from "url";
+import { sanitizePath, sanitizeSegment } from "./safePath";
+
+// Extensions each Content-Type may be saved with; the first is added when a URL has none of them
+const CONTENT_TYPE_EXTENSIONS: Record<string, string[]> = {
+  "text/css": [".css"],
+  "text/javascript": [".js", ".mjs", ".cjs"],
+  "application/javascript": [".js", ".mjs", ".cjs"],
+  "application/x-javascript": [".js", ".mjs", ".cjs"],
+  "application/json": [".json", ".map"],
+  "application/manifest+json": [".webmanifest", ".json"],
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg", ".jfif"],
+  "image/gif": [".gif"],
+  "image/svg+xml": [".svg"],
+  "image/webp": [".webp"],
+  "image/avif": [".avif"],
+  "image/x-icon": [".ico"],
+  "image/vnd.microsoft.icon": [".ico"],
+  "font/woff": [".woff"],
+  "font/woff2": [".woff2"],
+  "font/ttf": [".ttf"],
+  "font/otf": [".otf"],
+  "application/font-woff": [".woff"],
+  "application/vnd.ms-fontobject": [".eot"],
+  "video/mp4": [".mp4", ".m4v"],
+  "video/webm": [".webm"],
+  "video/ogg": [".ogv", ".ogg"],
+  "audio/mpeg": [".mp3"],
+  "audio/mp4": [".m4a"],
+  "audio/ogg": [".ogg", ".oga", ".opus"],
+  "audio/wav": [".wav"],
+  "text/vtt": [".vtt"],
+};
+
+function shortHash(value: string): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 8);
+}
+
+/**
+ * Maps resource and page URLs to project-relative paths, one map per project
+ * so a URL keeps its path across pages, resumes and retries. Paths follow
+ * the URL: assets from other hosts go in a folder named after the host, a
+ * query string adds a short hash, and an extension matching the response's
+ * Content-Type is added when the URL lacks one. Every segment is sanitized
+ * (see safePath.ts) and two URLs never share a path, even on a
+ * case-insensitive filesystem.
+ */
+export class PathMapper {
+  private paths = new Map<string, string>(); // URL without fragment -> path
+  private taken = new Map<string, string>(); // lowercased path -> URL
+
+  constructor(private origin: string) {}
+
+  get(url: string): string | undefined {
+    return this.paths.get(this.key(url));
+  }
+
+  // Keep a path assigned in an earlier run
+  reserve(url: string, localPath: string): void {
+    const key = this.key(url);
+    this.paths.set(key, localPath);
+    this.taken.set(localPath.toLowerCase(), key);
+  }
+
+  /**
+   * Path for `url` under `folder`. A URL that already has a path keeps it,
+   * whatever folder is asked for.
+   */
+  assign(url: string, folder: string, contentType?: string | null): string {
+    const key = this.key(url);
+    const existing = this.paths.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const urlObj = new URL(key);
+    let pathname = urlObj.pathname.replace(/^\/+/, "");
+    if (pathname === "" || pathname.endsWith("/")) {
+      pathname += "index";
+    }
+
+    let ext = path.posix.extname(pathname);
+    let stem = pathname.slice(0, pathname.length - ext.length);
+    const mimeType = contentType?.split(";")[0].trim().toLowerCase() ?? "";
+    const accepted = CONTENT_TYPE_EXTENSIONS[mimeType];
+    if (accepted && !accepted.includes(ext.toLowerCase())) {
+      // e.g. /image?id=1 served as image/png, or /font.php served as text/css
+      stem += ext;
+      ext = accepted[0];
+    }
+
+    if (urlObj.search) {
+      stem += `_${shortHash(urlObj.search)}`;
+    }
+    const host = urlObj.origin === this.origin ? "" : `${urlObj.host.replace(":", "_")}/`;
+
+    return this.claim(key, (suffix) => sanitizePath(`${folder}/${host}${stem}${suffix}${ext}`));
+  }
+
+  /**
+   * Path for a crawled HTML page. Pages are saved flat in the project root,
+   * so asset folders resolve the same way from every page: /docs/intro
+   * becomes docs_intro.html. The start page is reserved as index.html by
+   * the caller; any other page that would get a taken name gets a hash.
+   */
+  assignPage(url: string): string {
+    const key = this.key(url);
+    const existing = this.paths.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const urlObj = new URL(key);
+    let stem = urlObj.pathname
+      .replace(/^\/+|\/+$/g, "")
+      .replace(/\.(html?|php|aspx?)$/i, "")
+      .replace(/\//g, "_") || "index";
+    if (urlObj.search) {
+      stem += `_${shortHash(urlObj.search)}`;
+    }
+
+    return this.claim(key, (suffix) => `${sanitizeSegment(`${stem}${suffix}`)}.html`);
+  }
+
+  // Reserve the first path `build` gives that no other URL has, adding a hash of the URL when the plain one is taken
+  private claim(key: string, build: (suffix: string) => string): string {
+    let localPath = build("");
+    for (let attempt = 0; this.taken.has(localPath.toLowerCase()); attempt++) {
+      localPath = build(`_${shortHash(attempt === 0 ? key : `${key} ${attempt}`)}`);
+    }
+
+    this.reserve(key, localPath);
+    return localPath;
+  }
+
+  private key(url: string): string {
+    const urlObj = new URL(url);
+    urlObj.hash = "";
+    return urlObj.href;
+  }
+}
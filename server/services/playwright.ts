@@ -1,4 +1,47 @@
-import { chromium, type Browser, type Page } from "playwright";
+import { chromium, type Browser, type BrowserContext, type Page, type Request, type Route, type WebSocketRoute } from "playwright";
+import { urlGuard } from "./urlGuard";
+import type { RequestAuth } from "./authProfile";
+import type { AuthCookie, LoginStep, RenderOptions } from "@shared/schema";
+
+// Resource types worth saving; Playwright also reports documents, XHR, websockets...
+const SAVED_RESOURCE_TYPES = ["stylesheet", "script", "image", "font", "media"];
+// How long the post-load routine waits on any one thing
+const WAIT_FOR_SELECTOR_TIMEOUT_MS = 10000;
+const CLICK_TIMEOUT_MS = 5000;
+const SETTLE_TIMEOUT_MS = 5000;
+const QUIET_PERIOD_MS = 500; // no requests for this long counts as settled
+// Longest the capture waits for response bodies still streaming in
+const CAPTURE_TIMEOUT_MS = 10000;
+const LOGIN_STEP_TIMEOUT_MS = 30000;
+
+// A subresource the browser requested while rendering; `type` is Playwright's resource type
+export interface RenderedResource {
+  url: string;
+  type: string;
+}
+
+// A response body exactly as the browser received it
+export interface CapturedResponse {
+  body: Buffer;
+  status: number;
+  contentType: string | null;
+}
+
+type BrowserCookie = Parameters<BrowserContext["addCookies"]>[0][number];
+
+function toBrowserCookie(cookie: AuthCookie): BrowserCookie {
+  const { name, value, domain, path, expires, httpOnly, secure, sameSite } = cookie;
+  const flags = { expires, httpOnly, secure, sameSite };
+  // Chromium turns any domain it is given into a domain cookie; host-only cookies are set by URL
+  return domain.startsWith(".")
+    ? { name, value, domain, path, ...flags }
+    : { name, value, url: `${secure ? "https" : "http"}://${domain}${path}`, ...flags };
+}
+
+function fromBrowserCookie(cookie: Awaited<ReturnType<BrowserContext["cookies"]>>[number]): AuthCookie {
+  const { name, value, domain, path, expires, httpOnly, secure, sameSite } = cookie;
+  return { name, value, domain, path, expires: expires > 0 ? expires : undefined, httpOnly, secure, sameSite };
+}
 
 export class PlaywrightService {
   private browser: Browser | null = null;
@@ -37,8 +80,24 @@ export class PlaywrightService {
     options?: {
       viewport?: { width: number; height: number };
       userAgent?: string;
+      signal?: AbortSignal; // closes the page, failing navigation right away
+      render?: RenderOptions; // scroll, wait and click after load; nothing when omitted
+      captureMaxBytes?: number; // keep subresource bodies up to this size; none are kept when omitted
+      recordHar?: string; // write the page's traffic, bodies included, to this HAR file
+      auth?: RequestAuth; // cookies for the page, headers and basic auth for the site's requests
+      replayHar?: string; // answer every request from this HAR file; nothing goes to the network
+      keepOpen?: boolean; // leave the page open for getPage(); otherwise it is closed once captured
     }
-  ): Promise<{ html: string; resources: string[] }> {
+  ): Promise<{
+    html: string;
+    encoding: string;
+    resources: RenderedResource[];
+    responses: Map<string, CapturedResponse>; // by request URL, including every URL that redirected to it
+  }> {
+    if (options?.signal?.aborted) {
+      throw new Error("Rendering cancelled");
+    }
+
     await this.initialize();
     if (!this.browser) {
       throw new Error("Browser not initialized");
@@ -47,22 +106,72 @@ export class PlaywrightService {
     const page = await this.browser.newPage({
       viewport: options?.viewport,
       userAgent: options?.userAgent,
+      serviceWorkers: "block", // requests made by a service worker would skip the guard
+      recordHar: options?.recordHar ? { path: options.recordHar, content: "embed" } : undefined,
     });
-    this.currentPage = page;
+    if (options?.keepOpen) {
+      // Only one page is kept around; the previous one is done with
+      await this.closePage();
+      this.currentPage = page;
+    }
+    await page.route("**/*", (route) => this.guardRequest(route, options?.auth));
+    // page.route() doesn't see WebSockets; a replay has no network for them at all
+    await page.routeWebSocket(/.*/, (ws) => this.guardWebSocket(ws, Boolean(options?.replayHar)));
+    if (options?.auth) {
+      await page.context().addCookies(options.auth.cookies.map(toBrowserCookie));
+    }
+    if (options?.replayHar) {
+      // Routes added later take precedence, so the guard only sees what the archive lets through: nothing
+      await page.routeFromHAR(options.replayHar, { notFound: "abort" });
+    }
     
-    const resources: string[] = [];
+    const resources: RenderedResource[] = [];
     let requestCount = 0;
     let responseCount = 0;
 
-    // Track all network requests
+    // Track all network requests, including the ones the post-load routine triggers
     page.on("request", (request) => {
       const resourceType = request.resourceType();
-      if (["stylesheet", "script", "image", "font"].includes(resourceType)) {
-        resources.push(request.url());
+      if (SAVED_RESOURCE_TYPES.includes(resourceType)) {
+        resources.push({ url: request.url(), type: resourceType });
         requestCount++;
       }
     });
 
+    // Keep what the browser received, so the clone doesn't fetch it again without the
+    // page's cookies and headers, or after a signed URL has expired
+    const responses = new Map<string, CapturedResponse>();
+    const pendingBodies: Promise<void>[] = [];
+    const captureMaxBytes = options?.captureMaxBytes;
+    if (captureMaxBytes) {
+      page.on("response", (response) => {
+        const request = response.request();
+        // Only complete responses: partial (206) media and redirects have no usable body
+        if (
+          !SAVED_RESOURCE_TYPES.includes(request.resourceType()) ||
+          response.status() !== 200 ||
+          Number(response.headers()["content-length"]) > captureMaxBytes
+        ) {
+          return;
+        }
+        pendingBodies.push(
+          response.body()
+            .then((body) => {
+              if (body.length > captureMaxBytes) {
+                return;
+              }
+              const captured = { body, status: response.status(), contentType: response.headers()["content-type"] ?? null };
+              for (let hop: Request | null = request; hop; hop = hop.redirectedFrom()) {
+                responses.set(hop.url(), captured);
+              }
+            })
+            .catch(() => {
+              // Body no longer available, e.g. the page navigated or closed
+            })
+        );
+      });
+    }
+
     // Track responses to calculate progress
     page.on("response", () => {
       responseCount++;
@@ -72,6 +181,11 @@ export class PlaywrightService {
       }
     });
 
+    const abort = () => {
+      page.close().catch(() => {});
+    };
+    options?.signal?.addEventListener("abort", abort, { once: true });
+
     try {
       onProgress?.(0.1);
       
@@ -81,17 +195,250 @@ export class PlaywrightService {
         timeout: 60000,
       });
 
+      if (options?.render) {
+        await this.afterLoad(page, options.render);
+      }
+
       onProgress?.(1);
 
-      // Get the fully rendered HTML
+      // Get the fully rendered HTML, and the encoding the page was served in
       const html = await page.content();
+      const encoding = await page.evaluate(() => document.characterSet);
+      await Promise.race([Promise.all(pendingBodies), page.waitForTimeout(CAPTURE_TIMEOUT_MS)]);
+
+      return { html, encoding, resources, responses: new Map(responses) };
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        throw new Error("Rendering cancelled");
+      }
+      throw error;
+    } finally {
+      options?.signal?.removeEventListener("abort", abort);
+      if (!options?.keepOpen) {
+        // Closing the context also writes the page's HAR file
+        await page.context().close().catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Bring in content that only loads on demand: wait for the configured
+   * selectors, scroll to the bottom a screen at a time (again while the page
+   * keeps growing), and click "Load more"-style targets until they are gone
+   * or the click limit is reached. A step that fails or times out is skipped;
+   * the page is captured as it is.
+   */
+  private async afterLoad(page: Page, render: RenderOptions): Promise<void> {
+    // waitForLoadState("networkidle") returns at once after the first idle, so watch requests here
+    const network = { inFlight: 0, lastActivity: Date.now() };
+    const started = () => {
+      network.inFlight++;
+      network.lastActivity = Date.now();
+    };
+    const ended = () => {
+      network.inFlight = Math.max(0, network.inFlight - 1);
+      network.lastActivity = Date.now();
+    };
+    page.on("request", started);
+    page.on("requestfinished", ended);
+    page.on("requestfailed", ended);
+
+    const settle = async () => {
+      const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+      while (Date.now() < deadline && (network.inFlight > 0 || Date.now() - network.lastActivity < QUIET_PERIOD_MS)) {
+        await page.waitForTimeout(100);
+      }
+    };
+
+    try {
+      for (const selector of render.waitForSelectors) {
+        await page.waitForSelector(selector, { state: "attached", timeout: WAIT_FOR_SELECTOR_TIMEOUT_MS })
+          .catch((error) => console.warn(`Gave up waiting for ${selector}:`, error instanceof Error ? error.message : error));
+      }
+
+      if (render.autoScroll) {
+        await this.autoScroll(page, render, settle);
+      }
+
+      for (const selector of render.clickSelectors) {
+        for (let clicks = 0; clicks < render.maxClicks; clicks++) {
+          const target = page.locator(selector).first();
+          try {
+            if (!(await target.isVisible())) {
+              break;
+            }
+            await target.click({ timeout: CLICK_TIMEOUT_MS });
+          } catch (error) {
+            console.warn(`Could not click ${selector}:`, error instanceof Error ? error.message : error);
+            break;
+          }
+          await settle();
+          if (render.autoScroll) {
+            await this.autoScroll(page, render, settle);
+          }
+        }
+      }
+
+      if (render.autoScroll) {
+        // Back to the top so the capture matches a fresh visit (sticky headers, scroll-triggered classes)
+        await page.evaluate(() => window.scrollTo(0, 0));
+        await settle();
+      }
+    } catch (error) {
+      // Usually the page closing on cancel; the capture that follows reports it
+      console.warn("Post-load routine stopped early:", error instanceof Error ? error.message : error);
+    } finally {
+      page.off("request", started);
+      page.off("requestfinished", ended);
+      page.off("requestfailed", ended);
+    }
+  }
+
+  // Scroll a screen at a time until the bottom stays put
+  private async autoScroll(page: Page, render: RenderOptions, settle: () => Promise<void>): Promise<void> {
+    for (let step = 0; step < render.maxScrollSteps; step++) {
+      const position = await page.evaluate(() => {
+        window.scrollBy(0, window.innerHeight);
+        return {
+          bottom: window.scrollY + window.innerHeight,
+          height: document.documentElement.scrollHeight,
+        };
+      });
+
+      await page.waitForTimeout(render.scrollDelayMs);
+      if (position.bottom >= position.height) {
+        // Give whatever the bottom triggered time to load, then stop unless the page grew
+        await settle();
+        const height = await page.evaluate(() => document.documentElement.scrollHeight);
+        if (height <= position.height) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Sign in by replaying login steps in a fresh page, starting from
+   * `siteUrl` unless the first step navigates elsewhere, and return the
+   * cookies the browser holds afterwards. A step that fails fails the login.
+   */
+  async login(
+    siteUrl: string,
+    steps: LoginStep[],
+    options: { auth?: RequestAuth; signal?: AbortSignal } = {}
+  ): Promise<AuthCookie[]> {
+    await this.initialize();
+    if (!this.browser) {
+      throw new Error("Browser not initialized");
+    }
+
+    const page = await this.browser.newPage({ serviceWorkers: "block" });
+    await page.route("**/*", (route) => this.guardRequest(route, options.auth));
+    await page.routeWebSocket(/.*/, (ws) => this.guardWebSocket(ws, false));
+    if (options.auth) {
+      await page.context().addCookies(options.auth.cookies.map(toBrowserCookie));
+    }
+    const abort = () => {
+      page.close().catch(() => {});
+    };
+    options.signal?.addEventListener("abort", abort, { once: true });
+
+    try {
+      if (steps[0]?.action !== "goto") {
+        await page.goto(siteUrl, { waitUntil: "load", timeout: LOGIN_STEP_TIMEOUT_MS });
+      }
+      for (let index = 0; index < steps.length; index++) {
+        const step = steps[index];
+        try {
+          switch (step.action) {
+            case "goto":
+              await page.goto(step.url, { waitUntil: "load", timeout: LOGIN_STEP_TIMEOUT_MS });
+              break;
+            case "fill":
+              await page.fill(step.selector, step.value, { timeout: LOGIN_STEP_TIMEOUT_MS });
+              break;
+            case "click":
+              await page.click(step.selector, { timeout: LOGIN_STEP_TIMEOUT_MS });
+              break;
+            case "wait":
+              if (step.selector) {
+                await page.waitForSelector(step.selector, { timeout: LOGIN_STEP_TIMEOUT_MS });
+              } else {
+                await page.waitForTimeout(step.ms ?? 1000);
+              }
+              break;
+          }
+        } catch (error) {
+          if (options.signal?.aborted) {
+            throw new Error("Login cancelled");
+          }
+          // Values are left out of the message; they are often passwords
+          const target = step.action === "goto" ? step.url : step.action === "wait" && !step.selector ? `${step.ms ?? 1000}ms` : step.selector;
+          throw new Error(`Login step ${index + 1} (${step.action} ${target}) failed: ${error instanceof Error ? error.message : error}`);
+        }
+      }
 
-      return { html, resources };
+      // Let the redirects and requests that follow a submit finish setting cookies
+      await page.waitForLoadState("networkidle", { timeout: LOGIN_STEP_TIMEOUT_MS }).catch(() => {});
+      return (await page.context().cookies()).map(fromBrowserCookie);
     } finally {
-      if (page !== this.currentPage) {
-        await page.close();
+      options.signal?.removeEventListener("abort", abort);
+      await page.context().close().catch(() => {});
+    }
+  }
+
+  /**
+   * Apply the URL guard to a page request, navigation or subresource. The
+   * request is made from here without following redirects and the response
+   * handed to the browser, so a redirect comes back through this handler
+   * and its target is checked too. Requests to the site also get the auth
+   * profile's headers.
+   */
+  private async guardRequest(route: Route, auth?: RequestAuth): Promise<void> {
+    const url = route.request().url();
+    if (!/^https?:/i.test(url)) {
+      await route.continue().catch(() => {});
+      return;
+    }
+
+    try {
+      await urlGuard.check(url);
+    } catch (error) {
+      console.warn(`Blocked browser request to ${url}:`, error instanceof Error ? error.message : error);
+      await route.abort("blockedbyclient").catch(() => {});
+      return;
+    }
+
+    try {
+      // The context's cookies are sent by route.fetch() itself
+      const headers = auth ? { ...route.request().headers(), ...auth.siteHeaders(url) } : undefined;
+      const response = await route.fetch({ maxRedirects: 0, headers });
+      await route.fulfill({ response });
+    } catch (error) {
+      // Network failure, or the page was closed mid-request
+      await route.abort("failed").catch(() => {});
+    }
+  }
+
+  /**
+   * Apply the URL guard to a WebSocket the page opens: connections to a
+   * blocked host, or any connection when `offline`, are closed before they
+   * reach the network.
+   */
+  private async guardWebSocket(ws: WebSocketRoute, offline: boolean): Promise<void> {
+    const url = ws.url();
+    try {
+      if (offline) {
+        throw new Error("No network access during a replay");
       }
+      // The guard only takes http(s) URLs; the host and port are what matter
+      await urlGuard.check(url.replace(/^ws(s?):/i, "http$1:"));
+    } catch (error) {
+      console.warn(`Blocked WebSocket to ${url}:`, error instanceof Error ? error.message : error);
+      await ws.close({ code: 1008, reason: "Blocked" }).catch(() => {});
+      return;
     }
+    ws.connectToServer();
   }
 
   async getPage(): Promise<Page | null> {
@@ -100,8 +447,9 @@ export class PlaywrightService {
 
   async closePage(): Promise<void> {
     if (this.currentPage) {
-      await this.currentPage.close();
+      const page = this.currentPage;
       this.currentPage = null;
+      await page.context().close().catch(() => {});
     }
   }
 
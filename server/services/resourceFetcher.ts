@@ -0,0 +1,246 @@
+import type { HostThrottle } from "./hostThrottle";
+import { BlockedUrlError, urlGuard } from "./urlGuard";
+
+export interface FetchPolicy {
+  timeoutMs: number; // per attempt, including reading the body
+  maxRetries: number; // extra attempts after the first
+  maxResponseBytes: number;
+}
+
+export interface FetchedResource {
+  body: Buffer;
+  status: number;
+  contentType: string | null;
+  attempts: number;
+}
+
+// Statuses worth another try; anything else fails straight away
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+
+/**
+ * A fetch that gave up. `status` is the HTTP status of the last attempt,
+ * or null when it never got a response (timeout, DNS, connection reset...).
+ */
+export class FetchError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly status: number | null,
+    readonly attempts: number
+  ) {
+    super(message);
+    this.name = "FetchError";
+  }
+}
+
+// Thrown for failures another attempt won't fix
+class PermanentFetchError extends Error {
+  constructor(message: string, readonly status: number | null) {
+    super(message);
+  }
+}
+
+class RetryableFetchError extends Error {
+  constructor(message: string, readonly status: number | null, readonly retryAfterMs: number | null = null) {
+    super(message);
+  }
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function describeNetworkError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return "Unknown error";
+  }
+  // undici reports "fetch failed" and keeps the useful part (ECONNRESET, ENOTFOUND...) in `cause`
+  const cause = error.cause as { code?: string; message?: string } | undefined;
+  const detail = cause?.code ?? cause?.message;
+  return detail ? `${error.message} (${detail})` : error.message;
+}
+
+function tooLargeMessage(maxResponseBytes: number): string {
+  return `Response exceeds the ${maxResponseBytes} byte limit`;
+}
+
+/**
+ * Thrown by readBody when a response is larger than the caller allows.
+ */
+export class ResponseTooLargeError extends Error {
+  constructor(readonly maxResponseBytes: number) {
+    super(tooLargeMessage(maxResponseBytes));
+    this.name = "ResponseTooLargeError";
+  }
+}
+
+/**
+ * Read a response body, giving up with a ResponseTooLargeError as soon as
+ * the declared or streamed size passes `maxResponseBytes`. Use it instead
+ * of arrayBuffer() or text() for anything fetched from a cloned site.
+ */
+export async function readBody(response: Response, maxResponseBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  if (Number(response.headers.get("content-length")) > maxResponseBytes) {
+    await response.body.cancel().catch(() => {});
+    throw new ResponseTooLargeError(maxResponseBytes);
+  }
+
+  // Read incrementally so an oversized body without Content-Length is cut off early
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxResponseBytes) {
+      await reader.cancel().catch(() => {});
+      throw new ResponseTooLargeError(maxResponseBytes);
+    }
+    chunks.push(Buffer.from(value));
+  }
+
+  return Buffer.concat(chunks, size);
+}
+
+function backoffDelay(attempt: number): number {
+  // Exponential backoff with jitter so parallel retries don't line up
+  const base = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.round(base / 2 + Math.random() * (base / 2));
+}
+
+/**
+ * Downloads resources with a per-attempt timeout, retries with jittered
+ * exponential backoff (honoring Retry-After), and a cap on response size.
+ * Each attempt goes through the host throttle when one is given, so a
+ * request waiting out its backoff doesn't hold a slot for its host.
+ * Aborting `signal` cancels the request in flight and any pending retry.
+ * `headersFor` supplies credentials for each URL, redirect hops included.
+ */
+export class ResourceFetcher {
+  constructor(
+    readonly policy: FetchPolicy,
+    private throttle?: HostThrottle,
+    private signal?: AbortSignal,
+    private headersFor?: (url: string) => Record<string, string>
+  ) {}
+
+  /**
+   * `maxResponseBytes` overrides the policy's cap for this one request,
+   * e.g. the separate limit for video and audio.
+   */
+  async fetch(url: string, maxResponseBytes: number = this.policy.maxResponseBytes): Promise<FetchedResource> {
+    const maxAttempts = this.policy.maxRetries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = this.throttle
+          ? await this.throttle.schedule(url, () => this.attempt(url, maxResponseBytes))
+          : await this.attempt(url, maxResponseBytes);
+        return { ...result, attempts: attempt };
+      } catch (error) {
+        if (error instanceof PermanentFetchError) {
+          throw new FetchError(error.message, url, error.status, attempt);
+        }
+        if (this.signal?.aborted) {
+          throw new FetchError("Cancelled", url, null, attempt);
+        }
+
+        const retryable = error instanceof RetryableFetchError
+          ? error
+          : new RetryableFetchError(describeNetworkError(error), null);
+
+        if (attempt >= maxAttempts) {
+          const suffix = attempt > 1 ? ` after ${attempt} attempts` : "";
+          throw new FetchError(`${retryable.message}${suffix}`, url, retryable.status, attempt);
+        }
+
+        const delay = Math.min(MAX_BACKOFF_MS, retryable.retryAfterMs ?? backoffDelay(attempt - 1));
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      this.signal?.addEventListener("abort", done, { once: true });
+    });
+  }
+
+  private async attempt(url: string, maxResponseBytes: number): Promise<Omit<FetchedResource, "attempts">> {
+    if (this.signal?.aborted) {
+      throw new PermanentFetchError("Cancelled", null);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.policy.timeoutMs);
+    const cancel = () => controller.abort();
+    this.signal?.addEventListener("abort", cancel, { once: true });
+
+    try {
+      const response = await urlGuard.fetch(url, { signal: controller.signal }, this.headersFor);
+      const statusText = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`;
+
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => {});
+        if (RETRYABLE_STATUSES.has(response.status)) {
+          throw new RetryableFetchError(statusText, response.status, parseRetryAfter(response.headers.get("retry-after")));
+        }
+        throw new PermanentFetchError(statusText, response.status);
+      }
+
+      return {
+        body: await this.readBody(response, maxResponseBytes),
+        status: response.status,
+        contentType: response.headers.get("content-type"),
+      };
+    } catch (error) {
+      if (this.signal?.aborted) {
+        throw new PermanentFetchError("Cancelled", null);
+      }
+      if (error instanceof BlockedUrlError) {
+        throw new PermanentFetchError(error.message, null);
+      }
+      if (controller.signal.aborted && !(error instanceof PermanentFetchError)) {
+        throw new RetryableFetchError(`Timed out after ${this.policy.timeoutMs}ms`, null);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      this.signal?.removeEventListener("abort", cancel);
+    }
+  }
+
+  private async readBody(response: Response, maxResponseBytes: number): Promise<Buffer> {
+    try {
+      return await readBody(response, maxResponseBytes);
+    } catch (error) {
+      if (error instanceof ResponseTooLargeError) {
+        throw new PermanentFetchError(error.message, response.status);
+      }
+      throw error;
+    }
+  }
+}
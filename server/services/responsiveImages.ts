@@ -0,0 +1,115 @@
+import type { AssetOptions } from "@shared/schema";
+
+// One entry of a srcset attribute or a CSS image-set()
+export interface ImageCandidate {
+  url: string;
+  descriptor: string; // "2x", "640w", `1x type("image/webp")`... or "" for the default 1x
+}
+
+// Attributes holding a srcset, including the ones lazy loaders copy over on
+// scroll and the one on <link rel="preload" as="image">
+export const SRCSET_ATTRIBUTES = ["srcset", "data-srcset", "imagesrcset"] as const;
+
+/**
+ * Split a srcset value into candidates, following the HTML parsing rules:
+ * URLs may contain commas (e.g. `w_100,h_50` transforms) as long as they
+ * don't end with one, and descriptors run up to the next comma outside
+ * parentheses.
+ */
+export function parseSrcset(value: string): ImageCandidate[] {
+  const candidates: ImageCandidate[] = [];
+  let position = 0;
+
+  while (position < value.length) {
+    while (position < value.length && /[\s,]/.test(value[position])) {
+      position++;
+    }
+    if (position >= value.length) {
+      break;
+    }
+
+    let end = position;
+    while (end < value.length && !/\s/.test(value[end])) {
+      end++;
+    }
+    let url = value.slice(position, end);
+    position = end;
+
+    let descriptor = "";
+    if (url.endsWith(",")) {
+      url = url.replace(/,+$/, "");
+    } else {
+      let depth = 0;
+      while (position < value.length && (value[position] !== "," || depth > 0)) {
+        if (value[position] === "(") {
+          depth++;
+        } else if (value[position] === ")") {
+          depth = Math.max(0, depth - 1);
+        }
+        descriptor += value[position++];
+      }
+      descriptor = descriptor.trim();
+    }
+
+    if (url) {
+      candidates.push({ url, descriptor });
+    }
+  }
+
+  return candidates;
+}
+
+export function serializeSrcset(candidates: ImageCandidate[]): string {
+  return candidates
+    .map(({ url, descriptor }) => (descriptor ? `${url} ${descriptor}` : url))
+    .join(", ");
+}
+
+interface CandidateSize {
+  width: number | null;
+  density: number;
+}
+
+function candidateSize(descriptor: string): CandidateSize {
+  const width = descriptor.match(/(?:^|\s)(\d+)w(?:\s|$)/);
+  const density = descriptor.match(/(?:^|\s)(\d*\.?\d+)(x|dppx)(?:\s|$)/);
+  return {
+    width: width ? parseInt(width[1], 10) : null,
+    density: density ? parseFloat(density[1]) : 1,
+  };
+}
+
+/**
+ * Pick the candidates worth downloading. Candidates wider or denser than
+ * the configured caps are dropped first, then "largest"/"smallest" keep a
+ * single one. Widths are compared when the set uses w descriptors,
+ * densities otherwise. At least one candidate is always kept.
+ */
+export function selectCandidates(candidates: ImageCandidate[], options: AssetOptions): ImageCandidate[] {
+  if (candidates.length <= 1) {
+    return candidates;
+  }
+
+  const sized = candidates.map((candidate) => ({ candidate, ...candidateSize(candidate.descriptor) }));
+  const byWidth = sized.some((entry) => entry.width !== null);
+  const measure = (entry: typeof sized[number]) => (byWidth ? entry.width ?? 0 : entry.density);
+  const ascending = [...sized].sort((a, b) => measure(a) - measure(b));
+
+  let kept = sized.filter((entry) => {
+    if (byWidth) {
+      return options.maxImageWidth === undefined || entry.width === null || entry.width <= options.maxImageWidth;
+    }
+    return options.maxImageDensity === undefined || entry.density <= options.maxImageDensity;
+  });
+  if (kept.length === 0) {
+    kept = [ascending[0]];
+  }
+
+  if (options.imageCandidates === "largest") {
+    kept = [kept.reduce((best, entry) => (measure(entry) > measure(best) ? entry : best))];
+  } else if (options.imageCandidates === "smallest") {
+    kept = [kept.reduce((best, entry) => (measure(entry) < measure(best) ? entry : best))];
+  }
+
+  return kept.map((entry) => entry.candidate);
+}
@@ -0,0 +1,142 @@
+import { URL } from "url";
+import { urlGuard } from "./urlGuard";
+import { readBody } from "./resourceFetcher";
+
+// Token matched against User-agent groups in robots.txt
+export const CRAWLER_USER_AGENT = "SiteSnapshot";
+// Larger robots.txt files are treated as unreadable
+const MAX_ROBOTS_BYTES = 512 * 1024;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+function compileRule(path: string): RegExp {
+  // robots.txt paths support `*` wildcards and a trailing `$` end anchor
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Parsed robots.txt for one origin. Follows the usual precedence: the most
+ * specific matching user-agent group applies, the longest matching rule wins,
+ * and Allow wins a tie.
+ */
+export class RobotsTxt {
+  private rules: RobotsRule[];
+  readonly crawlDelay: number | null; // seconds
+  readonly sitemaps: string[] = [];
+
+  constructor(content: string, userAgent: string = CRAWLER_USER_AGENT) {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, "").trim();
+      const separator = line.indexOf(":");
+      if (separator === -1) {
+        continue;
+      }
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === "user-agent") {
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [], crawlDelay: null };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      }
+
+      lastWasAgent = false;
+
+      // Sitemap lines apply to the whole file, not to a user-agent group
+      if (field === "sitemap") {
+        if (value) {
+          this.sitemaps.push(value);
+        }
+        continue;
+      }
+
+      if (!current) {
+        continue;
+      }
+
+      if ((field === "allow" || field === "disallow") && value) {
+        current.rules.push({ allow: field === "allow", pattern: compileRule(value), length: value.length });
+      } else if (field === "crawl-delay") {
+        const delay = parseFloat(value);
+        if (!isNaN(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+      }
+    }
+
+    const agent = userAgent.toLowerCase();
+    const matching = groups.filter((group) => group.agents.some((a) => a !== "*" && agent.includes(a)));
+    const selected = matching.length > 0 ? matching : groups.filter((group) => group.agents.includes("*"));
+
+    this.rules = selected.flatMap((group) => group.rules);
+    const delays = selected.map((group) => group.crawlDelay).filter((d): d is number => d !== null);
+    this.crawlDelay = delays.length > 0 ? Math.max(...delays) : null;
+  }
+
+  isAllowed(url: string): boolean {
+    let target: string;
+    try {
+      const urlObj = new URL(url);
+      target = urlObj.pathname + urlObj.search;
+    } catch (error) {
+      return true;
+    }
+
+    let best: RobotsRule | null = null;
+    for (const rule of this.rules) {
+      if (!rule.pattern.test(target)) {
+        continue;
+      }
+      if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+
+  /**
+   * Fetch and parse robots.txt for the origin of `url`. A missing,
+   * unreachable or oversized robots.txt allows everything.
+   */
+  static async fetch(
+    url: string,
+    fetchImpl: (url: string) => Promise<Response> = (target) => urlGuard.fetch(target)
+  ): Promise<RobotsTxt> {
+    try {
+      const robotsUrl = new URL("/robots.txt", url).href;
+      const response = await fetchImpl(robotsUrl);
+      if (!response.ok) {
+        return new RobotsTxt("");
+      }
+      return new RobotsTxt((await readBody(response, MAX_ROBOTS_BYTES)).toString("utf-8"));
+    } catch (error) {
+      console.warn(`Could not read robots.txt for ${url}`, error);
+      return new RobotsTxt("");
+    }
+  }
+}
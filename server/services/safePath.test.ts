@@ -0,0 +1,139 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { UnsafePathError, resolveWithin, sanitizePath, sanitizeSegment } from "./safePath";
+import { FileManager } from "./fileManager";
+
+const ROOT = path.resolve("/srv/cloned_sites/project");
+
+describe("sanitizePath", () => {
+  it("never leaves a .. or . segment", () => {
+    for (const input of ["../../etc/passwd", "a/../../b", "./a/./b", "..", "...", "a/..%2f..%2fb"]) {
+      for (const segment of sanitizePath(input).split("/")) {
+        assert.notEqual(segment, "..", input);
+        assert.notEqual(segment, ".", input);
+        assert.ok(!segment.startsWith("."), `${input} -> ${segment}`);
+      }
+    }
+  });
+
+  it("decodes percent-escapes before sanitizing them", () => {
+    assert.equal(sanitizeSegment("%2e%2e"), "_");
+    assert.equal(sanitizeSegment("%2E%2E"), "_");
+    assert.equal(sanitizePath("css/%2e%2e/%2e%2e/secret.css"), "css/_/_/secret.css");
+  });
+
+  it("keeps encoded separators inside one segment", () => {
+    assert.equal(sanitizePath("js/..%2f..%2fetc%2fpasswd"), "js/_._.._etc_passwd");
+    assert.equal(sanitizePath("js/..%5c..%5cwindows%5cwin.ini"), "js/_._.._windows_win.ini");
+    assert.equal(sanitizeSegment("a%2Fb%5Cc"), "a_b_c");
+  });
+
+  it("treats backslashes as separators", () => {
+    assert.equal(sanitizePath("images\\..\\..\\evil.png"), "images/_/_/evil.png");
+  });
+
+  it("replaces NUL and other control characters", () => {
+    assert.equal(sanitizeSegment("evil\0.png"), "evil_.png");
+    assert.equal(sanitizeSegment("evil%00.png"), "evil_.png");
+    assert.equal(sanitizeSegment("tab\there"), "tab_here");
+  });
+
+  it("renames Windows reserved names", () => {
+    assert.equal(sanitizeSegment("CON"), "_CON");
+    assert.equal(sanitizeSegment("nul.txt"), "_nul.txt");
+    assert.equal(sanitizeSegment("NUL.txt"), "_NUL.txt");
+    assert.equal(sanitizeSegment("com1.js"), "_com1.js");
+    assert.equal(sanitizeSegment("lpt9"), "_lpt9");
+    assert.equal(sanitizeSegment("console.js"), "console.js");
+  });
+
+  it("drops trailing dots, and names nothing left as _", () => {
+    assert.equal(sanitizeSegment("file.css..."), "file.css");
+    assert.equal(sanitizeSegment("file.css "), "file.css_");
+    assert.equal(sanitizeSegment(""), "_");
+    assert.equal(sanitizePath(""), "_");
+    assert.equal(sanitizePath("///"), "_");
+  });
+
+  it("shortens overlong segments, keeping the extension and uniqueness", () => {
+    const long = `${"a".repeat(300)}.png`;
+    const other = `${"a".repeat(299)}b.png`;
+    const name = sanitizeSegment(long);
+    assert.ok(Buffer.byteLength(name) <= 100, name);
+    assert.ok(name.endsWith(".png"));
+    assert.notEqual(name, sanitizeSegment(other));
+    // Multi-byte characters aren't cut in half
+    assert.ok(!sanitizeSegment("é".repeat(200)).includes("\uFFFD"));
+  });
+
+  it("folds overlong paths into a hash", () => {
+    const deep = Array.from({ length: 40 }, (_, index) => `folder${index}`).join("/");
+    const result = sanitizePath(`images/${deep}/photo.jpg`);
+    assert.ok(result.length <= 240, result);
+    assert.match(result, /^images\/[0-9a-f]{8}\/photo\.jpg$/);
+    assert.notEqual(result, sanitizePath(`images/${deep}x/photo.jpg`));
+  });
+});
+
+describe("resolveWithin", () => {
+  it("resolves ordinary relative paths inside the root", () => {
+    assert.equal(resolveWithin(ROOT, "css/site.css"), path.join(ROOT, "css", "site.css"));
+    assert.equal(resolveWithin(ROOT, "a/../index.html"), path.join(ROOT, "index.html"));
+  });
+
+  it("rejects paths that climb out of the root", () => {
+    for (const input of ["../secret", "css/../../secret", "..", "a/../.."]) {
+      assert.throws(() => resolveWithin(ROOT, input), UnsafePathError, input);
+    }
+  });
+
+  it("rejects the root itself", () => {
+    assert.throws(() => resolveWithin(ROOT, "."), UnsafePathError);
+    assert.throws(() => resolveWithin(ROOT, "css/.."), UnsafePathError);
+  });
+
+  it("rejects absolute paths, POSIX and Windows", () => {
+    for (const input of ["/etc/passwd", "C:\\Windows\\win.ini", "C:/Windows/win.ini", "\\\\server\\share"]) {
+      assert.throws(() => resolveWithin(ROOT, input), UnsafePathError, input);
+    }
+  });
+
+  it("rejects backslashes and NUL bytes", () => {
+    assert.throws(() => resolveWithin(ROOT, "..\\..\\secret"), UnsafePathError);
+    assert.throws(() => resolveWithin(ROOT, "css\\site.css"), UnsafePathError);
+    assert.throws(() => resolveWithin(ROOT, "index.html\0.png"), UnsafePathError);
+  });
+
+  it("takes percent-escapes literally, so they can't climb out", () => {
+    assert.equal(resolveWithin(ROOT, "%2e%2e/secret"), path.join(ROOT, "%2e%2e", "secret"));
+    assert.equal(resolveWithin(ROOT, "..%2fsecret"), path.join(ROOT, "..%2fsecret"));
+  });
+
+  it("rejects overlong paths", () => {
+    assert.throws(() => resolveWithin(ROOT, "a/".repeat(121) + "b"), UnsafePathError);
+  });
+
+  it("doesn't accept a sibling folder that shares the root's name as a prefix", () => {
+    assert.throws(() => resolveWithin(ROOT, "../project-other/file"), UnsafePathError);
+  });
+});
+
+describe("FileManager.getProjectDir", () => {
+  const fileManager = new FileManager("/srv/cloned_sites");
+
+  it("accepts generated project ids", () => {
+    const id = "3f2b6c1e-8d4a-4c2e-9b1f-0a7d5e6c4b3a";
+    assert.equal(fileManager.getProjectDir(id), path.join("/srv/cloned_sites", id));
+  });
+
+  it("rejects malformed project ids", () => {
+    for (const id of ["", "..", ".", "../other", "a/b", "a\\b", "%2e%2e", "id\0", "id with space", "x".repeat(65)]) {
+      assert.throws(() => fileManager.getProjectDir(id), UnsafePathError, JSON.stringify(id));
+    }
+  });
+
+  it("applies the same check to the HAR path", () => {
+    assert.throws(() => fileManager.getHarPath("../escape"), UnsafePathError);
+  });
+});
@@ -0,0 +1,120 @@
+import path from "path";
+import { createHash } from "crypto";
+
+// Longest file or folder name we generate, in bytes; filesystems allow 255
+// and names get a hash suffix or extension appended after truncation
+const MAX_SEGMENT_BYTES = 100;
+// Longest project-relative path, so the clone still unpacks on Windows
+const MAX_PATH_LENGTH = 240;
+
+// Characters that aren't allowed in file names on Windows or macOS, or that
+// would change the meaning of a relative URL pointing at the file
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*#%\s\x00-\x1f\x7f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+const PROJECT_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * A path that would land outside its project folder, or that can't be
+ * written safely. `path` is the offending input.
+ */
+export class UnsafePathError extends Error {
+  constructor(message: string, readonly path: string) {
+    super(message);
+    this.name = "UnsafePathError";
+  }
+}
+
+function shortHash(value: string): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 8);
+}
+
+function truncateBytes(value: string, maxBytes: number): string {
+  const characters = Array.from(value);
+  while (Buffer.byteLength(characters.join("")) > maxBytes) {
+    characters.pop();
+  }
+  return characters.join("");
+}
+
+/**
+ * Turn one URL path segment into a file or folder name that is safe on any
+ * filesystem: percent-escapes are decoded, then separators, reserved and
+ * control characters become `_`, and names that are empty, dot-only,
+ * reserved on Windows or too long are rewritten. Names longer than the cap
+ * keep their extension and get a hash of the original, so they stay unique.
+ */
+export function sanitizeSegment(segment: string): string {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch (error) {
+    // Malformed escape, keep it as written
+  }
+
+  let name = decoded
+    .normalize("NFC")
+    .replace(ILLEGAL_CHARACTERS, "_")
+    .replace(/^\./, "_") // no hidden files; the preview server won't serve them
+    .replace(/[. ]+$/, ""); // Windows drops trailing dots and spaces
+  if (name === "") {
+    name = "_";
+  }
+  if (RESERVED_NAMES.test(name)) {
+    name = `_${name}`;
+  }
+
+  if (Buffer.byteLength(name) > MAX_SEGMENT_BYTES) {
+    const ext = truncateBytes(path.posix.extname(name), 16);
+    const stem = truncateBytes(name.slice(0, name.length - ext.length), MAX_SEGMENT_BYTES - ext.length - 9);
+    name = `${stem}_${shortHash(decoded)}${ext}`;
+  }
+  return name;
+}
+
+/**
+ * Sanitize every segment of a slash-separated path. When the result is still
+ * too long, the folders between the first and the file name are folded into
+ * a hash.
+ */
+export function sanitizePath(relativePath: string): string {
+  const segments = relativePath.split(/[/\\]+/).filter(Boolean).map(sanitizeSegment);
+  if (segments.length === 0) {
+    return "_";
+  }
+
+  const joined = segments.join("/");
+  if (joined.length <= MAX_PATH_LENGTH || segments.length < 3) {
+    return joined;
+  }
+  return `${segments[0]}/${shortHash(joined)}/${segments[segments.length - 1]}`;
+}
+
+export function isSafeProjectId(projectId: string): boolean {
+  return PROJECT_ID.test(projectId);
+}
+
+/**
+ * Absolute path of `relativePath` inside `root`. Throws an UnsafePathError
+ * for absolute paths, backslashes, NUL bytes, overlong paths and anything
+ * that resolves outside `root` (or to `root` itself).
+ */
+export function resolveWithin(root: string, relativePath: string): string {
+  if (
+    relativePath.includes("\0") ||
+    relativePath.includes("\\") ||
+    path.posix.isAbsolute(relativePath) ||
+    path.win32.isAbsolute(relativePath)
+  ) {
+    throw new UnsafePathError("Path must be relative to the project folder", relativePath);
+  }
+  if (relativePath.length > MAX_PATH_LENGTH) {
+    throw new UnsafePathError(`Path is longer than ${MAX_PATH_LENGTH} characters`, relativePath);
+  }
+
+  const resolvedRoot = path.resolve(root);
+  const resolved = path.resolve(resolvedRoot, relativePath);
+  if (!resolved.startsWith(resolvedRoot + path.sep)) {
+    throw new UnsafePathError("Path escapes the project folder", relativePath);
+  }
+  return resolved;
+}
@@ -0,0 +1,96 @@
+import { URL } from "url";
+import { gunzipSync } from "zlib";
+import * as cheerio from "cheerio";
+import { urlGuard } from "./urlGuard";
+import { readBody } from "./resourceFetcher";
+
+// Limits so a huge or self-referencing sitemap index can't stall a clone
+const MAX_SITEMAPS = 50;
+const MAX_SITEMAP_URLS = 5000;
+// The sitemap protocol caps a file at 50 MB uncompressed; bigger ones (or gzip bombs) are skipped
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface SitemapResult {
+  urls: string[];
+  sitemaps: string[]; // sitemap files that were read successfully
+}
+
+export class SitemapService {
+  /**
+   * Collect page URLs from a site's sitemaps. Starts from the given sitemap
+   * URLs (usually from robots.txt), falling back to /sitemap.xml, and follows
+   * nested sitemap indexes. Gzipped sitemaps are decompressed transparently;
+   * a sitemap larger than 50 MB, compressed or not, is skipped.
+   */
+  async discoverUrls(
+    siteUrl: string,
+    options: {
+      sitemapUrls?: string[];
+      fetchImpl?: (url: string) => Promise<Response>;
+    } = {}
+  ): Promise<SitemapResult> {
+    const fetchImpl = options.fetchImpl ?? ((url: string) => urlGuard.fetch(url));
+    const queue = options.sitemapUrls && options.sitemapUrls.length > 0
+      ? [...options.sitemapUrls]
+      : [new URL("/sitemap.xml", siteUrl).href];
+    const seen = new Set<string>();
+    const urls = new Set<string>();
+    const sitemaps: string[] = [];
+
+    while (queue.length > 0 && seen.size < MAX_SITEMAPS && urls.size < MAX_SITEMAP_URLS) {
+      const sitemapUrl = queue.shift()!;
+      if (seen.has(sitemapUrl)) {
+        continue;
+      }
+      seen.add(sitemapUrl);
+
+      try {
+        const response = await fetchImpl(sitemapUrl);
+        if (!response.ok) {
+          continue;
+        }
+
+        const xml = this.decode(await readBody(response, MAX_SITEMAP_BYTES));
+        const $ = cheerio.load(xml, { xml: true });
+        sitemaps.push(sitemapUrl);
+
+        // Sitemap index: queue the nested sitemaps
+        $("sitemap > loc").each((_, el) => {
+          const loc = $(el).text().trim();
+          if (loc) {
+            try {
+              queue.push(new URL(loc, sitemapUrl).href);
+            } catch (error) {
+              // Invalid URL, skip
+            }
+          }
+        });
+
+        $("url > loc").each((_, el) => {
+          const loc = $(el).text().trim();
+          if (loc && urls.size < MAX_SITEMAP_URLS) {
+            try {
+              urls.add(new URL(loc, sitemapUrl).href);
+            } catch (error) {
+              // Invalid URL, skip
+            }
+          }
+        });
+      } catch (error) {
+        console.warn(`Failed to read sitemap: ${sitemapUrl}`, error);
+      }
+    }
+
+    return { urls: Array.from(urls), sitemaps };
+  }
+
+  private decode(content: Buffer): string {
+    // Gzip magic bytes; servers often send .xml.gz without a Content-Encoding header
+    if (content.length > 2 && content[0] === 0x1f && content[1] === 0x8b) {
+      return gunzipSync(content, { maxOutputLength: MAX_SITEMAP_BYTES }).toString("utf-8");
+    }
+    return content.toString("utf-8");
+  }
+}
+
+export const sitemapService = new SitemapService();
@@ -0,0 +1,183 @@
+import { BlockList, isIP } from "net";
+import dns, { type LookupAddress, type LookupOptions } from "dns";
+import { lookup } from "dns/promises";
+import { URL } from "url";
+import { Agent } from "undici";
+
+const MAX_REDIRECTS = 10;
+
+// Loopback, private, link-local, shared, documentation, multicast and reserved ranges
+const BLOCKED_V4 = [
+  "0.0.0.0/8", "10.0.0.0/8", "100.64.0.0/10", "127.0.0.0/8", "169.254.0.0/16", "172.16.0.0/12",
+  "192.0.0.0/24", "192.0.2.0/24", "192.168.0.0/16", "198.18.0.0/15", "198.51.100.0/24",
+  "203.0.113.0/24", "224.0.0.0/4", "240.0.0.0/4",
+];
+// IPv4-mapped and NAT64 addresses are blocked whole rather than unpacked
+const BLOCKED_V6 = [
+  "::/127", "::ffff:0:0/96", "64:ff9b::/96", "100::/64", "2001:db8::/32", "fc00::/7", "fe80::/10", "ff00::/8",
+];
+
+/**
+ * A request the guard refused: a non-HTTP scheme, or a host that is or
+ * resolves to a private, loopback or link-local address.
+ */
+export class BlockedUrlError extends Error {
+  constructor(message: string, readonly url: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+function subnets(entries: string[], type: "ipv4" | "ipv6", list: BlockList): void {
+  for (const entry of entries) {
+    const [address, prefix] = entry.split("/");
+    list.addSubnet(address, parseInt(prefix, 10), type);
+  }
+}
+
+type LookupCallback = (error: Error | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * Keeps clones from reaching the server's own network (SSRF). Every URL is
+ * resolved and refused when any of its addresses is internal, unless the
+ * host or address is on the admin allowlist: `CLONE_ALLOWED_HOSTS`, a comma
+ * separated list of hostnames, IPs and CIDR ranges.
+ *
+ * fetch() connects through an agent whose DNS lookup applies the same
+ * check, so the connection goes to an address that was checked; a DNS
+ * server that answers differently the second time (DNS rebinding) is
+ * refused there.
+ */
+export class UrlGuard {
+  private blocked = new BlockList();
+  private allowedAddresses = new BlockList();
+  private allowedHosts = new Set<string>();
+  private dispatcher = new Agent({
+    connect: { lookup: (hostname: string, options: LookupOptions, callback: LookupCallback) => this.lookup(hostname, options, callback) },
+  });
+
+  constructor(allowlist: string = "") {
+    subnets(BLOCKED_V4, "ipv4", this.blocked);
+    subnets(BLOCKED_V6, "ipv6", this.blocked);
+
+    for (const entry of allowlist.split(",").map((value) => value.trim().toLowerCase()).filter(Boolean)) {
+      const [address, prefix] = entry.split("/");
+      const type = isIP(address) === 6 ? "ipv6" : "ipv4";
+      if (isIP(address) && prefix !== undefined) {
+        this.allowedAddresses.addSubnet(address, parseInt(prefix, 10), type);
+      } else if (isIP(address)) {
+        this.allowedAddresses.addAddress(address, type);
+      } else {
+        this.allowedHosts.add(entry);
+      }
+    }
+  }
+
+  /**
+   * Throw a BlockedUrlError unless `url` is http(s) and every address its
+   * host resolves to is public or allowlisted.
+   */
+  async check(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      throw new BlockedUrlError(`Invalid URL: ${url}`, url);
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw new BlockedUrlError(`Only http and https URLs can be cloned: ${url}`, url);
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+    if (this.isAllowedHost(hostname)) {
+      return;
+    }
+
+    let addresses: string[];
+    if (isIP(hostname)) {
+      addresses = [hostname];
+    } else {
+      try {
+        addresses = (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+      } catch (error) {
+        // Let the request itself fail with the usual network error
+        return;
+      }
+    }
+
+    const blocked = addresses.find((address) => this.isBlockedAddress(address));
+    if (blocked) {
+      const target = isIP(hostname) ? "is an internal address" : `resolves to an internal address (${blocked})`;
+      throw new BlockedUrlError(`${parsed.hostname} ${target}`, url);
+    }
+  }
+
+  /**
+   * fetch() that checks the URL first and follows redirects itself, so each
+   * hop is checked too. `headersFor` adds headers per hop, so credentials
+   * meant for one host aren't carried along a redirect to another.
+   */
+  async fetch(
+    url: string,
+    init: RequestInit = {},
+    headersFor?: (url: string) => Record<string, string>
+  ): Promise<Response> {
+    let current = url;
+    for (let redirects = 0; ; redirects++) {
+      await this.check(current);
+      const headers = new Headers(init.headers);
+      for (const [name, value] of Object.entries(headersFor?.(current) ?? {})) {
+        headers.set(name, value);
+      }
+      let response: Response;
+      try {
+        response = await fetch(current, { ...init, headers, redirect: "manual", dispatcher: this.dispatcher } as RequestInit);
+      } catch (error) {
+        // A refusal from lookup() comes back as the cause of undici's "fetch failed"
+        if (error instanceof Error && error.cause instanceof BlockedUrlError) {
+          throw new BlockedUrlError(error.cause.message, current);
+        }
+        throw error;
+      }
+
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location || init.redirect === "manual") {
+        return response;
+      }
+      await response.body?.cancel().catch(() => {});
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${url}`);
+      }
+      current = new URL(location, current).href;
+    }
+  }
+
+  private isAllowedHost(hostname: string): boolean {
+    return this.allowedHosts.has(hostname);
+  }
+
+  private isBlockedAddress(address: string): boolean {
+    const type = isIP(address) === 6 ? "ipv6" : "ipv4";
+    return this.blocked.check(address, type) && !this.allowedAddresses.check(address, type);
+  }
+
+  // DNS lookup for fetch() connections: resolves once and refuses internal addresses
+  private lookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, []);
+        return;
+      }
+      const blocked = addresses.find((entry) => this.isBlockedAddress(entry.address));
+      if (blocked && !this.isAllowedHost(hostname.toLowerCase())) {
+        callback(new BlockedUrlError(`${hostname} resolves to an internal address (${blocked.address})`, hostname), []);
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  }
+}
+
+export const urlGuard = new UrlGuard(process.env.CLONE_ALLOWED_HOSTS);
@@ -0,0 +1,52 @@
+// An entry of a web app manifest's icons, screenshots or shortcut icons
+export interface ManifestImage {
+  src: string;
+  [member: string]: unknown;
+}
+
+function imageEntries(value: unknown): ManifestImage[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((entry): entry is ManifestImage =>
+    typeof entry === "object" && entry !== null && typeof entry.src === "string");
+}
+
+/**
+ * Every image a parsed manifest points at, as the manifest's own objects so
+ * callers can rewrite `src` in place. Screenshots are flagged because they
+ * are regular images rather than icons.
+ */
+export function manifestImages(manifest: unknown): Array<{ image: ManifestImage; screenshot: boolean }> {
+  if (typeof manifest !== "object" || manifest === null) {
+    return [];
+  }
+
+  const { icons, screenshots, shortcuts } = manifest as Record<string, unknown>;
+  const shortcutIcons = Array.isArray(shortcuts)
+    ? shortcuts.flatMap((shortcut) => (typeof shortcut === "object" && shortcut !== null ? imageEntries(shortcut.icons) : []))
+    : [];
+
+  return [
+    ...imageEntries(icons).map((image) => ({ image, screenshot: false })),
+    ...shortcutIcons.map((image) => ({ image, screenshot: false })),
+    ...imageEntries(screenshots).map((image) => ({ image, screenshot: true })),
+  ];
+}
+
+/**
+ * Remove `start_url` and `scope`, which point at pages on the original
+ * site. Without them the browser starts the app at the page that linked the
+ * manifest, i.e. the cloned page, and scopes it to that page's folder.
+ * Returns whether anything was removed.
+ */
+export function detachNavigationScope(manifest: unknown): boolean {
+  if (typeof manifest !== "object" || manifest === null) {
+    return false;
+  }
+  const members = manifest as Record<string, unknown>;
+  const detached = "start_url" in members || "scope" in members;
+  delete members.start_url;
+  delete members.scope;
+  return detached;
+}
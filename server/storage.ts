@@ -1,9 +1,9 @@
-import { type Project, type InsertProject, type File, type InsertFile } from "@shared/schema";
+import { type Project, type InsertProject, type File, type InsertFile, type Page, type InsertPage, type Resource, type InsertResource } from "@shared/schema";
 import { randomUUID } from "crypto";
 
 export interface IStorage {
   // Projects
-  createProject(project: InsertProject & Partial<Pick<Project, 'estimatedTime' | 'estimatedSize'>>): Promise<Project>;
+  createProject(project: InsertProject & Partial<Pick<Project, 'estimatedTime' | 'estimatedSize' | 'authProfile'>>): Promise<Project>;
   getProject(id: string): Promise<Project | undefined>;
   getAllProjects(): Promise<Project[]>;
   updateProjectStatus(id: string, status: string, updates?: Partial<Project>): Promise<void>;
@@ -12,22 +12,38 @@ export interface IStorage {
 
   // Files
   createFile(file: InsertFile): Promise<File>;
+  upsertFile(file: InsertFile): Promise<File>;
   getFile(id: string): Promise<File | undefined>;
   getFilesByProject(projectId: string): Promise<File[]>;
   updateFileContent(id: string, content: string): Promise<void>;
   deleteFilesByProject(projectId: string): Promise<void>;
+
+  // Pages
+  upsertPage(page: InsertPage): Promise<Page>;
+  getPagesByProject(projectId: string): Promise<Page[]>;
+  deletePagesByProject(projectId: string): Promise<void>;
+
+  // Resources
+  createResource(resource: InsertResource): Promise<Resource>;
+  getResourcesByProject(projectId: string): Promise<Resource[]>;
+  updateResource(id: string, updates: Partial<InsertResource>): Promise<void>;
+  deleteResourcesByProject(projectId: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private projects: Map<string, Project>;
   private files: Map<string, File>;
+  private pages: Map<string, Page>;
+  private resources: Map<string, Resource>;
 
   constructor() {
     this.projects = new Map();
     this.files = new Map();
+    this.pages = new Map();
+    this.resources = new Map();
   }
 
-  async createProject(insertProject: InsertProject & Partial<Pick<Project, 'estimatedTime' | 'estimatedSize'>>): Promise<Project> {
+  async createProject(insertProject: InsertProject & Partial<Pick<Project, 'estimatedTime' | 'estimatedSize' | 'authProfile'>>): Promise<Project> {
     const id = randomUUID();
     const project: Project = {
       ...insertProject,
@@ -36,6 +52,11 @@ export class MemStorage implements IStorage {
       status: "pending",
       cloneMethod: insertProject.cloneMethod || "static",
       crawlDepth: insertProject.crawlDepth || 0,
+      crawlRules: insertProject.crawlRules || null,
+      politeness: insertProject.politeness || null,
+      assetOptions: insertProject.assetOptions || null,
+      renderOptions: insertProject.renderOptions || null,
+      authProfile: insertProject.authProfile || null,
       deviceProfiles: insertProject.deviceProfiles || null,
       totalFiles: 0,
       totalSize: 0,
@@ -46,8 +67,10 @@ export class MemStorage implements IStorage {
       progressPercentage: 0,
       filesProcessed: 0,
       pagesProcessed: 0,
+      skippedUrls: [],
       generatedCode: null,
       isPaused: 0,
+      checkpoint: null,
       createdAt: new Date(),
       completedAt: null,
       errorMessage: null,
@@ -92,6 +115,8 @@ export class MemStorage implements IStorage {
   async deleteProject(id: string): Promise<void> {
     this.projects.delete(id);
     await this.deleteFilesByProject(id);
+    await this.deletePagesByProject(id);
+    await this.deleteResourcesByProject(id);
   }
 
   async createFile(insertFile: InsertFile): Promise<File> {
@@ -107,6 +132,26 @@ export class MemStorage implements IStorage {
     return file;
   }
 
+  // Replaces the row already stored at the same path, so re-saving a file
+  // (e.g. when a paused clone resumes) never leaves duplicates
+  async upsertFile(insertFile: InsertFile): Promise<File> {
+    const existing = Array.from(this.files.values()).find(
+      (file) => file.projectId === insertFile.projectId && file.path === insertFile.path
+    );
+    if (!existing) {
+      return this.createFile(insertFile);
+    }
+
+    const file: File = {
+      ...existing,
+      ...insertFile,
+      content: insertFile.content ?? null,
+      size: insertFile.size ?? null,
+    };
+    this.files.set(existing.id, file);
+    return file;
+  }
+
   async getFile(id: string): Promise<File | undefined> {
     return this.files.get(id);
   }
@@ -131,6 +176,75 @@ export class MemStorage implements IStorage {
 
     filesToDelete.forEach((id) => this.files.delete(id));
   }
+
+  // Pages are keyed by project and path, so saving a page again replaces its row
+  async upsertPage(insertPage: InsertPage): Promise<Page> {
+    const existing = Array.from(this.pages.values()).find(
+      (page) => page.projectId === insertPage.projectId && page.path === insertPage.path
+    );
+    const page: Page = {
+      ...insertPage,
+      depth: insertPage.depth ?? 0,
+      parentUrl: insertPage.parentUrl ?? null,
+      id: existing?.id ?? randomUUID(),
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.pages.set(page.id, page);
+    return page;
+  }
+
+  async getPagesByProject(projectId: string): Promise<Page[]> {
+    return Array.from(this.pages.values())
+      .filter((page) => page.projectId === projectId)
+      .sort((a, b) => a.depth - b.depth || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async deletePagesByProject(projectId: string): Promise<void> {
+    const pagesToDelete = Array.from(this.pages.entries())
+      .filter(([, page]) => page.projectId === projectId)
+      .map(([id]) => id);
+
+    pagesToDelete.forEach((id) => this.pages.delete(id));
+  }
+
+  async createResource(insertResource: InsertResource): Promise<Resource> {
+    const id = randomUUID();
+    const now = new Date();
+    const resource: Resource = {
+      ...insertResource,
+      httpStatus: insertResource.httpStatus ?? null,
+      error: insertResource.error ?? null,
+      attempts: insertResource.attempts ?? 0,
+      localPath: insertResource.localPath ?? null,
+      references: insertResource.references ?? [],
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.resources.set(id, resource);
+    return resource;
+  }
+
+  async getResourcesByProject(projectId: string): Promise<Resource[]> {
+    return Array.from(this.resources.values())
+      .filter((resource) => resource.projectId === projectId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async updateResource(id: string, updates: Partial<InsertResource>): Promise<void> {
+    const resource = this.resources.get(id);
+    if (resource) {
+      this.resources.set(id, { ...resource, ...updates, updatedAt: new Date() });
+    }
+  }
+
+  async deleteResourcesByProject(projectId: string): Promise<void> {
+    const resourcesToDelete = Array.from(this.resources.entries())
+      .filter(([, resource]) => resource.projectId === projectId)
+      .map(([id]) => id);
+
+    resourcesToDelete.forEach((id) => this.resources.delete(id));
+  }
 }
 
 export const storage = new MemStorage();
@@ -3,14 +3,165 @@ import { pgTable, text, varchar, timestamp, jsonb, integer } from "drizzle-orm/p
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Crawl patterns with this prefix are regular expressions; the rest are globs
+export const REGEX_MARKER = "re:";
+
+/**
+ * The regex a `re:` crawl pattern stands for, or null for globs and invalid
+ * regexes. The g and y flags are dropped: they make test() depend on the
+ * previous call.
+ */
+export function parseRegexPattern(pattern: string): RegExp | null {
+  if (!pattern.startsWith(REGEX_MARKER)) {
+    return null;
+  }
+  const body = pattern.slice(REGEX_MARKER.length);
+  const literal = body.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    return literal ? new RegExp(literal[1], literal[2].replace(/[gy]/g, "")) : new RegExp(body);
+  } catch (error) {
+    return null;
+  }
+}
+
+const crawlPatternSchema = z.string().refine(
+  (pattern) => !pattern.startsWith(REGEX_MARKER) || parseRegexPattern(pattern) !== null,
+  (pattern) => ({ message: `Invalid regular expression: ${pattern}` })
+);
+
+export const crawlRulesSchema = z.object({
+  include: z.array(crawlPatternSchema).default([]), // glob (/docs/**) or regex (re:pattern, re:/pattern/flags); empty = everything
+  exclude: z.array(crawlPatternSchema).default([]),
+  pathPrefix: z.string().optional(), // only crawl URLs under this path, matched on whole segments
+  queryMode: z.enum(["keep", "strip", "allowlist"]).default("keep"),
+  allowedParams: z.array(z.string()).default([]), // used when queryMode is "allowlist"
+  useSitemap: z.boolean().default(false), // also seed the crawl from sitemap.xml
+});
+
+export type CrawlRules = z.infer<typeof crawlRulesSchema>;
+
+export const crawlPolitenessSchema = z.object({
+  respectRobotsTxt: z.boolean().default(true),
+  minDelayMs: z.number().int().min(0).default(250), // between requests to the same host
+  maxConcurrency: z.number().int().min(1).default(2), // in-flight requests per host
+  maxTotalConcurrency: z.number().int().min(1).default(6), // in-flight downloads across all hosts
+  timeoutMs: z.number().int().min(1000).default(30000), // per attempt
+  maxRetries: z.number().int().min(0).max(10).default(3), // for timeouts, 429 and 5xx
+  maxResponseBytes: z.number().int().min(1).default(50 * 1024 * 1024),
+});
+
+export type CrawlPoliteness = z.infer<typeof crawlPolitenessSchema>;
+
+export const assetOptionsSchema = z.object({
+  // Which srcset / image-set() candidates to download
+  imageCandidates: z.enum(["all", "largest", "smallest"]).default("all"),
+  maxImageWidth: z.number().int().min(1).optional(), // skip w candidates wider than this
+  maxImageDensity: z.number().min(1).optional(), // skip x candidates denser than this
+  maxMediaBytes: z.number().int().min(1).default(25 * 1024 * 1024), // per video/audio file; larger ones are skipped
+  sourceMaps: z.boolean().default(false), // also download the source maps scripts point at
+});
+
+export type AssetOptions = z.infer<typeof assetOptionsSchema>;
+
+// Playwright mode: what to do after load so lazy content is in the capture
+export const renderOptionsSchema = z.object({
+  autoScroll: z.boolean().default(true), // scroll to the bottom a screen at a time, for lazy images and infinite feeds
+  maxScrollSteps: z.number().int().min(1).max(500).default(50),
+  scrollDelayMs: z.number().int().min(0).max(10000).default(250), // pause after each step
+  waitForSelectors: z.array(z.string()).default([]), // CSS selectors to wait for before capturing
+  clickSelectors: z.array(z.string()).default([]), // e.g. "Load more" buttons, clicked until they disappear
+  maxClicks: z.number().int().min(0).max(100).default(10), // per click selector
+  recordHar: z.boolean().default(false), // keep a HAR of every request, bodies included, for download or replay
+});
+
+export type RenderOptions = z.infer<typeof renderOptionsSchema>;
+
+// One step of a browser login, replayed before the clone starts
+export const loginStepSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("goto"), url: z.string().url() }),
+  z.object({ action: z.literal("fill"), selector: z.string().min(1), value: z.string() }),
+  z.object({ action: z.literal("click"), selector: z.string().min(1) }),
+  // Waits for the selector when given, otherwise for `ms`
+  z.object({ action: z.literal("wait"), selector: z.string().min(1).optional(), ms: z.number().int().min(0).max(60000).optional() }),
+]);
+
+export type LoginStep = z.infer<typeof loginStepSchema>;
+
+export const authCookieSchema = z.object({
+  name: z.string().min(1),
+  value: z.string(),
+  domain: z.string().min(1), // a leading dot also matches subdomains
+  path: z.string().default("/"),
+  expires: z.number().optional(), // Unix time in seconds; session cookie when omitted
+  httpOnly: z.boolean().default(false),
+  secure: z.boolean().default(false),
+  sameSite: z.enum(["Strict", "Lax", "None"]).optional(),
+});
+
+export type AuthCookie = z.infer<typeof authCookieSchema>;
+
+// Credentials a project clones with. Headers and basic auth are only sent to the site's own host
+export const authProfileSchema = z.object({
+  headers: z.record(z.string()).default({}),
+  cookies: z.array(authCookieSchema).default([]),
+  basicAuth: z.object({ username: z.string().min(1), password: z.string() }).nullable().default(null),
+  loginSteps: z.array(loginStepSchema).default([]),
+});
+
+export type AuthProfile = z.infer<typeof authProfileSchema>;
+
+// As sent by clients: a cookie jar export (Netscape cookies.txt or JSON) may stand in for `cookies`
+export const authProfileInputSchema = authProfileSchema.extend({
+  cookieJar: z.string().optional(),
+});
+
+export type AuthProfileInput = z.input<typeof authProfileInputSchema>;
+
+// The part of an auth profile the API shows; no header values, cookie values or passwords
+export interface AuthProfileSummary {
+  headerNames: string[];
+  cookieCount: number;
+  basicAuthUser: string | null;
+  loginSteps: number;
+}
+
+export interface StoredAuthProfile {
+  summary: AuthProfileSummary;
+  sealed?: string; // the AuthProfile, encrypted; removed from every API response
+}
+
+export interface SkippedUrl {
+  url: string;
+  reason: string;
+}
+
+// Saved when a clone is paused so resume can pick up where it stopped
+export interface CloneCheckpoint {
+  // Static/Playwright: set once the root page is saved
+  frontier?: {
+    queue: Array<{ url: string; depth: number; parentUrl: string | null }>;
+    visited: string[];
+  };
+  pagesProcessed?: number;
+  stats?: { totalResources: number; downloadedCount: number; failedCount: number };
+  skipped?: SkippedUrl[];
+  // AI: device profiles whose code is already generated and saved
+  completedDevices?: string[];
+}
+
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   url: text("url").notNull(),
   name: text("name").notNull(),
   displayName: text("display_name"),
-  status: text("status").notNull().default("pending"), // pending, processing, complete, error, paused
-  cloneMethod: text("clone_method").notNull().default("static"), // static, playwright, ai
+  status: text("status").notNull().default("pending"), // pending, processing, complete, error, paused, cancelled
+  cloneMethod: text("clone_method").notNull().default("static"), // static, playwright, replay (from the project's HAR), ai
   crawlDepth: integer("crawl_depth").default(0), // 0 = single page, 1+ = crawl sub-pages
+  crawlRules: jsonb("crawl_rules").$type<CrawlRules>(),
+  politeness: jsonb("politeness").$type<CrawlPoliteness>(),
+  assetOptions: jsonb("asset_options").$type<AssetOptions>(),
+  renderOptions: jsonb("render_options").$type<RenderOptions>(),
+  authProfile: jsonb("auth_profile").$type<StoredAuthProfile>(),
   deviceProfiles: text("device_profiles").array().default(sql`ARRAY[]::text[]`), // for AI mode: mobile, tablet, desktop
   totalFiles: integer("total_files").default(0),
   totalSize: integer("total_size").default(0), // in bytes
@@ -21,8 +172,10 @@ export const projects = pgTable("projects", {
   progressPercentage: integer("progress_percentage").default(0),
   filesProcessed: integer("files_processed").default(0),
   pagesProcessed: integer("pages_processed").default(0),
+  skippedUrls: jsonb("skipped_urls").$type<SkippedUrl[]>().default([]), // e.g. disallowed by robots.txt
   generatedCode: text("generated_code"),
   isPaused: integer("is_paused").default(0), // 0 = false, 1 = true
+  checkpoint: jsonb("checkpoint").$type<CloneCheckpoint>(), // set while paused
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
   errorMessage: text("error_message"),
@@ -33,17 +186,56 @@ export const files = pgTable("files", {
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
   path: text("path").notNull(),
   content: text("content"),
-  type: text("type").notNull(), // html, css, js, image, font, other
+  type: text("type").notNull(), // html, css, js, json, image, font, media, other
   size: integer("size").default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertProjectSchema = createInsertSchema(projects).pick({
+export const pages = pgTable("pages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  path: text("path").notNull(), // local HTML file the page was saved to
+  depth: integer("depth").notNull().default(0), // 0 = root page
+  parentUrl: text("parent_url"), // page the link was discovered on
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export interface ResourceReference {
+  file: string; // project file (HTML page or stylesheet) that references the resource
+  ref: string; // reference exactly as written in that file
+}
+
+export const resources = pgTable("resources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  kind: text("kind").notNull(), // css, manifest, font, icon, js, image, media, other
+  status: text("status").notNull(), // downloaded, failed
+  httpStatus: integer("http_status"), // status of the last attempt, null if no response
+  error: text("error"),
+  attempts: integer("attempts").default(0),
+  localPath: text("local_path"), // set once downloaded
+  references: jsonb("references").$type<ResourceReference[]>().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  crawlRules: crawlRulesSchema.nullable().optional(),
+  politeness: crawlPolitenessSchema.nullable().optional(),
+  assetOptions: assetOptionsSchema.nullable().optional(),
+  renderOptions: renderOptionsSchema.nullable().optional(),
+}).pick({
   url: true,
   name: true,
   displayName: true,
   cloneMethod: true,
   crawlDepth: true,
+  crawlRules: true,
+  politeness: true,
+  assetOptions: true,
+  renderOptions: true,
   deviceProfiles: true,
 });
 
@@ -59,10 +251,36 @@ export const insertFileSchema = createInsertSchema(files).pick({
   size: true,
 });
 
+export const insertPageSchema = createInsertSchema(pages).pick({
+  projectId: true,
+  url: true,
+  path: true,
+  depth: true,
+  parentUrl: true,
+});
+
+export const insertResourceSchema = createInsertSchema(resources, {
+  references: z.array(z.object({ file: z.string(), ref: z.string() })).optional(),
+}).pick({
+  projectId: true,
+  url: true,
+  kind: true,
+  status: true,
+  httpStatus: true,
+  error: true,
+  attempts: true,
+  localPath: true,
+  references: true,
+});
+
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
+export type InsertPage = z.infer<typeof insertPageSchema>;
+export type Page = typeof pages.$inferSelect;
+export type InsertResource = z.infer<typeof insertResourceSchema>;
+export type Resource = typeof resources.$inferSelect;
 
 export interface CloneProgress {
   projectId: string;